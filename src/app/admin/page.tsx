@@ -1,11 +1,25 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { PurpleButton } from "~/components/ui/PurpleButton";
 import type { FrameNotificationDetails } from "@farcaster/frame-sdk";
 
 export default function AdminDashboard() {
   const [sendNotificationResult, setSendNotificationResult] = useState("");
+  const [shareStats, setShareStats] = useState<{
+    share: number;
+    open: number;
+    play: number;
+    conversion: number;
+  } | null>(null);
+
+  // Load share funnel totals
+  useEffect(() => {
+    fetch("/api/shares")
+      .then((response) => response.json())
+      .then(setShareStats)
+      .catch((error) => console.error("Error loading share stats:", error));
+  }, []);
 
   const sendNotification = useCallback(async (fid: number, notificationDetails: FrameNotificationDetails) => {
     setSendNotificationResult("");
@@ -62,7 +76,19 @@ export default function AdminDashboard() {
           )}
         </div>
 
-        <div className="mx-auto h-24 w-full max-w-3xl rounded-xl bg-neutral-100/50 dark:bg-neutral-800/50" />
+        <div className="mx-auto w-full max-w-3xl rounded-xl bg-neutral-100/50 p-4 dark:bg-neutral-800/50">
+          <h2 className="text-xl mb-4">Shares</h2>
+          {shareStats ? (
+            <div className="grid grid-cols-4 gap-4 text-sm">
+              <div>Shared: {shareStats.share}</div>
+              <div>Opened: {shareStats.open}</div>
+              <div>Played: {shareStats.play}</div>
+              <div>Conversion: {(shareStats.conversion * 100).toFixed(1)}%</div>
+            </div>
+          ) : (
+            <div className="text-sm">Loading...</div>
+          )}
+        </div>
         <div className="mx-auto h-full w-full max-w-3xl rounded-xl bg-neutral-100/50 dark:bg-neutral-800/50" />
       </div>
     </div>
@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { getAchievementRecord } from "~/lib/kv";
+import { EMPTY_STATS, type AchievementRecord } from "~/lib/game/achievements";
+
+const fidSchema = z.coerce.number().int().positive();
+
+const EMPTY_RECORD: AchievementRecord = { stats: EMPTY_STATS, unlocked: [] };
+
+// A player's achievement progress across all their devices. Progress is only
+// ever tracked by /api/scores from verified runs.
+export async function GET(request: NextRequest) {
+  const fid = fidSchema.safeParse(request.nextUrl.searchParams.get("fid"));
+  if (fid.success === false) {
+    return Response.json(
+      { success: false, error: "INVALID_FID" },
+      { status: 400 }
+    );
+  }
+
+  const record = (await getAchievementRecord(fid.data)) ?? EMPTY_RECORD;
+  return Response.json({ success: true, ...record });
+}
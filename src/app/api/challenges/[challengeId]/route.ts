@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { getChallenge } from "~/lib/challenges";
+
+// Course and target for a challenge link
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ challengeId: string }> }
+) {
+  const { challengeId } = await params;
+  const challenge = await getChallenge(challengeId);
+
+  if (!challenge) {
+    return Response.json(
+      { success: false, error: "CHALLENGE_NOT_FOUND" },
+      { status: 404 }
+    );
+  }
+
+  return Response.json({ success: true, ...challenge });
+}
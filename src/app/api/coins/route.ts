@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { getSessionFid } from "~/auth";
+import { getCoinWallet, purchaseSkin } from "~/lib/kv";
+import { SKIN_IDS, SKINS, type SkinId } from "~/lib/game/cosmetics";
+
+const fidSchema = z.coerce.number().int().positive();
+
+const requestSchema = z.object({
+  fid: fidSchema,
+  skin: z.enum(SKIN_IDS as [SkinId, ...SkinId[]]),
+});
+
+// A player's coin balance and bought skins. Coins are only ever credited
+// by /api/scores from verified runs.
+export async function GET(request: NextRequest) {
+  const fid = fidSchema.safeParse(request.nextUrl.searchParams.get("fid"));
+  if (fid.success === false) {
+    return Response.json(
+      { success: false, error: "INVALID_FID" },
+      { status: 400 }
+    );
+  }
+
+  const wallet = await getCoinWallet(fid.data);
+  return Response.json({ success: true, ...wallet });
+}
+
+// Buy a skin with coins for the signed-in player and return the updated wallet
+export async function POST(request: NextRequest) {
+  const requestJson = await request.json();
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return Response.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const { fid, skin } = requestBody.data;
+  if ((await getSessionFid()) !== fid) {
+    return Response.json(
+      { success: false, error: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+
+  const { price } = SKINS[skin];
+  if (price === undefined) {
+    return Response.json(
+      { success: false, error: "NOT_FOR_SALE" },
+      { status: 422 }
+    );
+  }
+
+  const purchase = await purchaseSkin(fid, skin, price);
+  if (!purchase.success) {
+    return Response.json(
+      { success: false, error: purchase.error },
+      { status: 422 }
+    );
+  }
+
+  return Response.json({ success: true, ...purchase.wallet });
+}
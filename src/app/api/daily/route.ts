@@ -0,0 +1,85 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { getSessionFid } from "~/auth";
+import {
+  createDailyAttemptToken,
+  getDailyAttempts,
+  startDailyAttempt,
+} from "~/lib/kv";
+import {
+  DAILY_CHALLENGE_ATTEMPTS,
+  getChallengeDate,
+  getDailySeed,
+} from "~/lib/game/daily";
+
+const fidSchema = z.coerce.number().int().positive();
+
+function getChallenge(attemptsUsed: number) {
+  const challengeDate = getChallengeDate();
+  return {
+    challengeDate,
+    seed: getDailySeed(challengeDate),
+    attemptsAllowed: DAILY_CHALLENGE_ATTEMPTS,
+    attemptsUsed: Math.min(attemptsUsed, DAILY_CHALLENGE_ATTEMPTS),
+    attemptsRemaining: Math.max(DAILY_CHALLENGE_ATTEMPTS - attemptsUsed, 0),
+  };
+}
+
+// Today's challenge and how many ranked attempts the viewer has left
+export async function GET(request: NextRequest) {
+  const fid = fidSchema.safeParse(request.nextUrl.searchParams.get("fid"));
+  if (fid.success === false) {
+    return Response.json({ success: true, ...getChallenge(0) });
+  }
+
+  const attemptsUsed = await getDailyAttempts(fid.data, getChallengeDate());
+  return Response.json({ success: true, ...getChallenge(attemptsUsed) });
+}
+
+const requestSchema = z.object({
+  fid: fidSchema,
+});
+
+// Start a ranked attempt at today's challenge for the signed-in player. The
+// returned token must be sent with the attempt's run to /api/scores, and only
+// works once.
+export async function POST(request: NextRequest) {
+  const requestJson = await request.json();
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return Response.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const { fid } = requestBody.data;
+  if ((await getSessionFid()) !== fid) {
+    return Response.json(
+      { success: false, error: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+
+  const challengeDate = getChallengeDate();
+  const attemptsUsed = await startDailyAttempt(fid, challengeDate);
+
+  if (attemptsUsed > DAILY_CHALLENGE_ATTEMPTS) {
+    return Response.json(
+      {
+        success: false,
+        error: "DAILY_ATTEMPTS_EXHAUSTED",
+        ...getChallenge(attemptsUsed),
+      },
+      { status: 429 }
+    );
+  }
+
+  const attemptToken = await createDailyAttemptToken(fid, challengeDate);
+  return Response.json({
+    success: true,
+    ...getChallenge(attemptsUsed),
+    attemptToken,
+  });
+}
@@ -0,0 +1,113 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  getLeaderboardEntries,
+  getLeaderboardPage,
+  getLeaderboardRank,
+  getLeaderboardSize,
+  getUserProfiles,
+  type LeaderboardEntry,
+} from "~/lib/kv";
+import { getFollowingFids } from "~/lib/neynar";
+import {
+  DEFAULT_DIFFICULTY_ID,
+  DIFFICULTY_IDS,
+  getDifficultyBoardId,
+  type DifficultyId,
+} from "~/lib/game/difficulty";
+
+const PAGE_SIZE = 20;
+
+const querySchema = z.object({
+  // Friends ranks the viewer and the people they follow on the all-time board
+  scope: z
+    .enum(["global", "daily", "weekly", "challenge", "friends"])
+    .default("global"),
+  // Each difficulty profile is ranked separately
+  difficulty: z
+    .enum(DIFFICULTY_IDS as [DifficultyId, ...DifficultyId[]])
+    .default(DEFAULT_DIFFICULTY_ID),
+  // Offset of the first entry to return, from a previous nextCursor
+  cursor: z.coerce.number().int().nonnegative().default(0),
+  // Viewer whose own rank should be included
+  fid: z.coerce.number().int().positive().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = querySchema.safeParse({
+    scope: searchParams.get("scope") ?? undefined,
+    difficulty: searchParams.get("difficulty") ?? undefined,
+    cursor: searchParams.get("cursor") ?? undefined,
+    fid: searchParams.get("fid") ?? undefined,
+  });
+
+  if (query.success === false) {
+    return Response.json(
+      { success: false, errors: query.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const { scope, difficulty, cursor, fid } = query.data;
+  const board = getDifficultyBoardId(difficulty);
+
+  let page: LeaderboardEntry[];
+  let size: number;
+  let viewerRank: { rank: number; score: number } | null;
+
+  if (scope === "friends") {
+    if (!fid) {
+      return Response.json(
+        { success: false, error: "FID_REQUIRED" },
+        { status: 400 }
+      );
+    }
+
+    const following = await getFollowingFids(fid);
+    if (!following) {
+      return Response.json(
+        { success: false, error: "FRIENDS_UNAVAILABLE" },
+        { status: 503 }
+      );
+    }
+
+    const ranked = await getLeaderboardEntries([fid, ...following], board);
+    const viewerIndex = ranked.findIndex((entry) => entry.fid === fid);
+    page = ranked.slice(cursor, cursor + PAGE_SIZE);
+    size = ranked.length;
+    viewerRank =
+      viewerIndex === -1
+        ? null
+        : { rank: viewerIndex, score: ranked[viewerIndex].score };
+  } else {
+    [page, size, viewerRank] = await Promise.all([
+      getLeaderboardPage(scope, cursor, PAGE_SIZE, board),
+      getLeaderboardSize(scope, board),
+      fid ? getLeaderboardRank(scope, fid, board) : null,
+    ]);
+  }
+
+  const profiles = await getUserProfiles(page.map((entry) => entry.fid));
+
+  const entries = page.map((entry, i) => ({
+    rank: cursor + i + 1,
+    fid: entry.fid,
+    score: entry.score,
+    username: profiles[i]?.username ?? null,
+    displayName: profiles[i]?.displayName ?? null,
+    pfpUrl: profiles[i]?.pfpUrl ?? null,
+  }));
+
+  return Response.json({
+    success: true,
+    scope,
+    difficulty,
+    entries,
+    total: size,
+    nextCursor: cursor + PAGE_SIZE < size ? String(cursor + PAGE_SIZE) : null,
+    viewer: viewerRank
+      ? { fid, rank: viewerRank.rank + 1, score: viewerRank.score }
+      : null,
+  });
+}
@@ -0,0 +1,195 @@
+import { ImageResponse } from "next/og";
+import { NextRequest } from "next/server";
+import { OG_IMAGE_SIZE, PROJECT_TITLE } from "~/lib/constants";
+import { GROUND_HEIGHT } from "~/lib/game/constants";
+import { getDifficultyBoardId, getDifficultyProfile } from "~/lib/game/difficulty";
+import {
+  decodeInputLog,
+  getCourseOutline,
+  type InputLog,
+} from "~/lib/game/replay";
+import {
+  getLeaderboardRank,
+  getRun,
+  getRunOutline,
+  getUserProfiles,
+  saveRunOutline,
+  type RunOutline,
+} from "~/lib/kv";
+
+export const dynamic = "force-dynamic";
+
+// Size of the course thumbnail along the bottom of the card
+const THUMBNAIL_WIDTH = 1080;
+const THUMBNAIL_HEIGHT = 220;
+
+// Score card for a single run, used as the frame image when a run link is shared
+export async function GET(request: NextRequest) {
+  const runId = request.nextUrl.searchParams.get("runId");
+  const record = runId ? await getRun(runId) : null;
+  const log = record ? decodeInputLog(record.run) : null;
+
+  if (!runId || !record || !log) {
+    return Response.json(
+      { success: false, error: "RUN_NOT_FOUND" },
+      { status: 404 }
+    );
+  }
+
+  const [[profile], globalRank] = await Promise.all([
+    getUserProfiles([record.fid]),
+    getLeaderboardRank("global", record.fid, getDifficultyBoardId(log.difficulty)),
+  ]);
+
+  const course = (await getRunOutline(runId)) ?? (await cacheRunOutline(runId, log));
+  const { distance } = record;
+  const name = profile?.username ? `@${profile.username}` : `fid:${record.fid}`;
+
+  // The whole run is squeezed into the thumbnail, so x and y scale separately
+  const scaleX = THUMBNAIL_WIDTH / course.length;
+  const scaleY = THUMBNAIL_HEIGHT / course.height;
+  const groundHeight = GROUND_HEIGHT * scaleY;
+  const crash = course.path[course.path.length - 1];
+
+  return new ImageResponse(
+    (
+      <div
+        tw="h-full w-full flex flex-col items-center justify-between p-14"
+        style={{
+          backgroundImage: `linear-gradient(to bottom, #87CEEB, #4a90d9)`,
+          color: "white",
+        }}
+      >
+        <div tw="flex w-full items-center">
+          {profile?.pfpUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={profile.pfpUrl}
+              alt=""
+              width={120}
+              height={120}
+              tw="rounded-full mr-8"
+            />
+          )}
+          <div tw="flex flex-col">
+            <span tw="text-6xl font-semibold">{name}</span>
+            <span tw="text-3xl opacity-80">
+              {`${PROJECT_TITLE} · ${getDifficultyProfile(log.difficulty).name}`}
+            </span>
+          </div>
+        </div>
+
+        <div tw="flex w-full justify-around">
+          <Stat label="Score" value={record.score.toString()} />
+          <Stat label="Distance" value={`${distance} m`} />
+          <Stat label="Best" value={(globalRank?.score ?? record.score).toString()} />
+          <Stat label="Rank" value={globalRank ? `#${globalRank.rank + 1}` : "-"} />
+        </div>
+
+        <div
+          tw="flex relative overflow-hidden rounded-xl"
+          style={{
+            width: THUMBNAIL_WIDTH,
+            height: THUMBNAIL_HEIGHT,
+            backgroundColor: "#87CEEB",
+            border: "4px solid white",
+          }}
+        >
+          {course.obstacles.flatMap((obstacle, i) => [
+            <div
+              key={`top-${i}`}
+              tw="absolute"
+              style={{
+                left: obstacle.x * scaleX,
+                top: 0,
+                width: Math.max(obstacle.width * scaleX, 2),
+                height: obstacle.topHeight * scaleY,
+                backgroundColor: "#4CAF50",
+              }}
+            />,
+            <div
+              key={`bottom-${i}`}
+              tw="absolute"
+              style={{
+                left: obstacle.x * scaleX,
+                top: obstacle.bottomY * scaleY,
+                width: Math.max(obstacle.width * scaleX, 2),
+                height: THUMBNAIL_HEIGHT - obstacle.bottomY * scaleY,
+                backgroundColor: "#4CAF50",
+              }}
+            />,
+            // Mines and spinning bars show as the area they cover
+            ...(obstacle.radius > 0
+              ? [
+                  <div
+                    key={`round-${i}`}
+                    tw="absolute rounded-full"
+                    style={{
+                      left: (obstacle.x + obstacle.width / 2 - obstacle.radius) * scaleX,
+                      top: (obstacle.centerY - obstacle.radius) * scaleY,
+                      width: Math.max(obstacle.radius * 2 * scaleX, 2),
+                      height: Math.max(obstacle.radius * 2 * scaleY, 2),
+                      backgroundColor: obstacle.kind === "mine" ? "#37474F" : "#FF7043",
+                    }}
+                  />,
+                ]
+              : []),
+          ])}
+          <div
+            tw="absolute"
+            style={{
+              left: 0,
+              bottom: 0,
+              width: THUMBNAIL_WIDTH,
+              height: groundHeight,
+              backgroundColor: "#8B4513",
+            }}
+          />
+          {course.path.map((point, i) => (
+            <div
+              key={i}
+              tw="absolute rounded-full"
+              style={{
+                left: point.x * scaleX - 3,
+                top: point.y * scaleY - 3,
+                width: 6,
+                height: 6,
+                backgroundColor: "white",
+              }}
+            />
+          ))}
+          {crash && (
+            <div
+              tw="absolute rounded-full"
+              style={{
+                left: crash.x * scaleX - 10,
+                top: crash.y * scaleY - 10,
+                width: 20,
+                height: 20,
+                backgroundColor: "#FF5722",
+                border: "3px solid white",
+              }}
+            />
+          )}
+        </div>
+      </div>
+    ),
+    OG_IMAGE_SIZE
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div tw="flex flex-col items-center">
+      <span tw="text-8xl font-semibold">{value}</span>
+      <span tw="text-3xl opacity-80">{label}</span>
+    </div>
+  );
+}
+
+// Re-simulate a run once to draw its course, and keep the result for next time
+async function cacheRunOutline(runId: string, log: InputLog): Promise<RunOutline> {
+  const { finalState: _finalState, ...outline } = getCourseOutline(log);
+  await saveRunOutline(runId, outline);
+  return outline;
+}
@@ -0,0 +1,260 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { getSessionFid } from "~/auth";
+import { getChallenge } from "~/lib/challenges";
+import {
+  consumeDailyAttemptToken,
+  creditRunCoins,
+  getLeaderboardRank,
+  markChallengeNotified,
+  saveRun,
+  setUserProfile,
+  submitChallengeScore,
+  submitLeaderboardScore,
+  trackRunAchievements,
+} from "~/lib/kv";
+import { reportTickEvents, type RunEvent } from "~/lib/game/achievements";
+import {
+  DAILY_DIFFICULTY_ID,
+  getChallengeDate,
+  getDailySeed,
+  isChallengeDateOpen,
+} from "~/lib/game/daily";
+import { TICK_RATE } from "~/lib/game/constants";
+import { getDifficultyBoardId, type DifficultyId } from "~/lib/game/difficulty";
+import { decodeInputLog, encodeInputLog } from "~/lib/game/replay";
+import { verifyRun } from "~/lib/game/verify";
+import { sendFrameNotification } from "~/lib/notifs";
+
+const appUrl = process.env.NEXT_PUBLIC_URL || "";
+
+const requestSchema = z.object({
+  fid: z.number().int().positive(),
+  // Input log encoded with encodeInputLog
+  run: z.string().min(1).max(100_000),
+  // Score the client saw; only used to detect tampering
+  score: z.number().int().nonnegative().optional(),
+  // Daily challenge runs also name the challenge they were played for
+  mode: z.enum(["classic", "daily"]).default("classic"),
+  challengeDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  // Token from /api/daily for the ranked attempt this run was played as
+  attemptToken: z.string().uuid().optional(),
+  // Run id of the challenge this run was played against, if any
+  challengeId: z.string().min(1).max(64).optional(),
+  // Shown next to the score on leaderboards
+  profile: z
+    .object({
+      username: z.string().max(64).optional(),
+      displayName: z.string().max(64).optional(),
+      pfpUrl: z.string().url().max(512).optional(),
+    })
+    .optional(),
+});
+
+export async function POST(request: NextRequest) {
+  const requestJson = await request.json();
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return Response.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const {
+    fid,
+    run,
+    score,
+    mode,
+    challengeDate,
+    attemptToken,
+    challengeId,
+    profile,
+  } = requestBody.data;
+
+  // Scores, runs and coins are only ever recorded for the signed-in player
+  if ((await getSessionFid()) !== fid) {
+    return Response.json(
+      { success: false, error: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+
+  // Only the canonical encoding is accepted, so one run can't be resubmitted
+  // in another spelling (e.g. "05" for 5) and counted again
+  const log = decodeInputLog(run);
+  if (!log || encodeInputLog(log) !== run) {
+    return Response.json(
+      { success: false, error: "INVALID_INPUT_LOG" },
+      { status: 400 }
+    );
+  }
+
+  // Re-simulate the run; the server-computed score is the only one we keep,
+  // and its achievement progress is read off the same re-simulation
+  const runEvents: RunEvent[] = [{ type: "runStarted", date: getChallengeDate() }];
+  const result = verifyRun(log, score, (previous, next) =>
+    reportTickEvents(previous, next, (event) => runEvents.push(event))
+  );
+  if (!result.valid) {
+    return Response.json(
+      { success: false, error: result.error },
+      { status: 422 }
+    );
+  }
+
+  if (mode === "daily") {
+    if (!challengeDate || !isChallengeDateOpen(challengeDate)) {
+      return Response.json(
+        { success: false, error: "CHALLENGE_CLOSED" },
+        { status: 422 }
+      );
+    }
+
+    if (log.seed !== getDailySeed(challengeDate)) {
+      return Response.json(
+        { success: false, error: "SEED_MISMATCH" },
+        { status: 422 }
+      );
+    }
+
+    if (log.difficulty !== DAILY_DIFFICULTY_ID) {
+      return Response.json(
+        { success: false, error: "DIFFICULTY_MISMATCH" },
+        { status: 422 }
+      );
+    }
+
+    // Each ranked run must redeem the token of an attempt started through
+    // /api/daily, and can't have taken longer than the time since it started.
+    // Every attempt is on the same course, so this can't tell a run flown for
+    // the attempt from a practice run flown earlier; it only makes each ranked
+    // score cost one of the day's attempts and its own length in real time.
+    const attempt = attemptToken
+      ? await consumeDailyAttemptToken(attemptToken)
+      : null;
+    if (
+      !attempt ||
+      attempt.fid !== fid ||
+      attempt.challengeDate !== challengeDate
+    ) {
+      return Response.json(
+        { success: false, error: "NO_ATTEMPT_STARTED" },
+        { status: 403 }
+      );
+    }
+
+    if (log.ticks / TICK_RATE > (Date.now() - attempt.startedAt) / 1000) {
+      return Response.json(
+        { success: false, error: "RUN_PREDATES_ATTEMPT" },
+        { status: 403 }
+      );
+    }
+  }
+
+  if (profile) {
+    await setUserProfile(fid, profile);
+  }
+  // verifyRun has checked the profile version, so this is its current board
+  const board = getDifficultyBoardId(log.difficulty);
+  await submitLeaderboardScore(fid, result.score, board);
+
+  if (mode === "daily" && challengeDate) {
+    await submitChallengeScore(
+      fid,
+      result.score,
+      board,
+      new Date(`${challengeDate}T00:00:00Z`)
+    );
+  }
+
+  const [runId, globalRank, coins, achievements] = await Promise.all([
+    saveRun({
+      fid,
+      score: result.score,
+      distance: result.distance,
+      crashX: result.crashX,
+      run,
+      createdAt: Date.now(),
+    }),
+    getLeaderboardRank("global", fid, board),
+    creditRunCoins(fid, run, result.coins),
+    trackRunAchievements(fid, run, runEvents),
+  ]);
+
+  if (challengeId) {
+    await notifyChallenger(challengeId, {
+      fid,
+      username: profile?.username,
+      seed: log.seed,
+      difficulty: log.difficulty,
+      distance: result.distance,
+      runId,
+    }).catch((error) =>
+      console.error("Error notifying challenger:", error)
+    );
+  }
+
+  return Response.json({
+    success: true,
+    runId,
+    score: result.score,
+    bestScore: globalRank?.score ?? result.score,
+    rank: globalRank ? globalRank.rank + 1 : null,
+    coins,
+    achievements,
+  });
+}
+
+// Tell the challenger how an opponent did on their course
+async function notifyChallenger(
+  challengeId: string,
+  opponent: {
+    fid: number;
+    username?: string;
+    seed: number;
+    difficulty: DifficultyId;
+    distance: number;
+    runId: string;
+  }
+) {
+  const challenge = await getChallenge(challengeId);
+
+  // Only runs on the challenger's own course and profile count, and never against yourself
+  if (
+    !challenge ||
+    challenge.fid === opponent.fid ||
+    challenge.seed !== opponent.seed ||
+    challenge.difficulty !== opponent.difficulty
+  ) {
+    return;
+  }
+
+  if (!(await markChallengeNotified(challengeId, opponent.fid))) return;
+
+  const name = opponent.username
+    ? `@${opponent.username}`
+    : `fid:${opponent.fid}`;
+  const margin = opponent.distance - challenge.distance;
+  const body =
+    margin > 0
+      ? `${name} beat your run by ${margin}m. Win it back!`
+      : margin < 0
+        ? `${name} fell ${-margin}m short of your run.`
+        : `${name} tied your run at ${challenge.distance}m.`;
+
+  const sendResult = await sendFrameNotification({
+    fid: challenge.fid,
+    title: "Challenge result",
+    body,
+    targetUrl: `${appUrl}/?challenge=${opponent.runId}`,
+  });
+
+  if (sendResult.state === "error") {
+    console.error("Error sending challenge notification:", sendResult.error);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { getRun, getShareStats, recordShareEvent } from "~/lib/kv";
+
+const requestSchema = z.object({
+  runId: z.string().min(1).max(64),
+  event: z.enum(["share", "open", "play"]),
+});
+
+// Track a step of the share funnel for a run
+export async function POST(request: NextRequest) {
+  const requestJson = await request.json();
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return Response.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const { runId, event } = requestBody.data;
+
+  if (!(await getRun(runId))) {
+    return Response.json(
+      { success: false, error: "RUN_NOT_FOUND" },
+      { status: 404 }
+    );
+  }
+
+  await recordShareEvent(runId, event);
+
+  return Response.json({ success: true });
+}
+
+// Share funnel counts for a run, or overall without ?runId=
+export async function GET(request: NextRequest) {
+  const runId = request.nextUrl.searchParams.get("runId") ?? undefined;
+  const stats = await getShareStats(runId);
+
+  return Response.json({
+    success: true,
+    ...stats,
+    // Fraction of opened share links that turned into a game
+    conversion: stats.open > 0 ? stats.play / stats.open : 0,
+  });
+}
@@ -1,16 +1,13 @@
 import { ImageResponse } from "next/og";
 import { type ReactElement } from 'react';
-import { PROJECT_TITLE, PROJECT_DESCRIPTION } from "~/lib/constants";
+import { PROJECT_TITLE, PROJECT_DESCRIPTION, OG_IMAGE_SIZE } from "~/lib/constants";
 
 // Force dynamic rendering for OG images
 export const dynamic = 'force-dynamic';
 
 export const alt = PROJECT_TITLE;
 export const contentType = "image/png";
-export const size = {
-  width: 1200,
-  height: 800,
-};
+export const size = OG_IMAGE_SIZE;
 
 export default async function Image() {
   return new ImageResponse(
@@ -26,9 +23,6 @@ export default async function Image() {
         <h3 tw="text-4xl font-normal">{PROJECT_DESCRIPTION}</h3>
       </div>
     ),
-    {
-      width: 1200,
-      height: 800,
-    }
+    size
   );
 }
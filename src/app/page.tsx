@@ -1,43 +1,49 @@
 import { Metadata } from "next";
 import App from "./app";
-import { PROJECT_TITLE, PROJECT_DESCRIPTION } from "~/lib/constants";
+import { PROJECT_TITLE, PROJECT_DESCRIPTION, OG_IMAGE_SIZE } from "~/lib/constants";
 
 const appUrl =
   process.env.NEXT_PUBLIC_URL ||
   process.env.VERCEL_URL ||
   "http://localhost:3000";
 
-const frame = {
-  version: "vNext",
-  image: `${appUrl}/opengraph-image`,
-  buttons: [
-    {
-      label: "Play Game",
-    }
-  ],
+type PageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 };
 
-export const metadata: Metadata = {
-  title: PROJECT_TITLE,
-  description: PROJECT_DESCRIPTION,
-  openGraph: {
+// Shared run and challenge links (/?runId=... or /?challenge=...) use that
+// run's score card as their image
+export async function generateMetadata({
+  searchParams,
+}: PageProps): Promise<Metadata> {
+  const params = await searchParams;
+  const runId = params.runId ?? params.challenge;
+  const imageUrl =
+    typeof runId === "string" && runId
+      ? `${appUrl}/api/og/score?runId=${encodeURIComponent(runId)}`
+      : `${appUrl}/opengraph-image`;
+
+  return {
     title: PROJECT_TITLE,
     description: PROJECT_DESCRIPTION,
-    images: [
-      {
-        url: `${appUrl}/opengraph-image`,
-        width: 1200,
-        height: 630,
-        alt: PROJECT_TITLE,
-      },
-    ],
-  },
-  other: {
-    "fc:frame": "vNext",
-    "fc:frame:image": `${appUrl}/opengraph-image`,
-    "fc:frame:button:1": "Play Game",
-  },
-};
+    openGraph: {
+      title: PROJECT_TITLE,
+      description: PROJECT_DESCRIPTION,
+      images: [
+        {
+          url: imageUrl,
+          ...OG_IMAGE_SIZE,
+          alt: PROJECT_TITLE,
+        },
+      ],
+    },
+    other: {
+      "fc:frame": "vNext",
+      "fc:frame:image": imageUrl,
+      "fc:frame:button:1": "Play Game",
+    },
+  };
+}
 
 export default function Home() {
   return <App />;
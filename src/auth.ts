@@ -75,3 +75,11 @@ export const authOptions: AuthOptions = {
 }
 
 export const getSession = () => getServerSession(authOptions)
+
+// Fid of the player signed in with Farcaster, or null without a session.
+// Routes that act for a player check the fid they're given against this.
+export async function getSessionFid(): Promise<number | null> {
+  const session = await getSession();
+  const fid = session?.user?.fid;
+  return typeof fid === "number" && Number.isInteger(fid) && fid > 0 ? fid : null;
+}
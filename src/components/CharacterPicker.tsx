@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "~/components/ui/carousel";
+import {
+  CHARACTER_IDS,
+  getCharacter,
+  type CharacterId,
+} from "~/lib/game/characters";
+import { getHelicopterHitbox } from "~/lib/game/collision";
+
+type CharacterPickerProps = {
+  characterId: CharacterId;
+  onSelect: (id: CharacterId) => void;
+};
+
+// Swipeable character roster shown over the start screen
+export function CharacterPicker({ characterId, onSelect }: CharacterPickerProps) {
+  const [api, setApi] = useState<CarouselApi>();
+
+  // Select whichever character the carousel settles on
+  useEffect(() => {
+    if (!api) return;
+
+    const handleSelect = () => onSelect(CHARACTER_IDS[api.selectedScrollSnap()]);
+    api.on("select", handleSelect);
+    return () => {
+      api.off("select", handleSelect);
+    };
+  }, [api, onSelect]);
+
+  // Follow choices made elsewhere, e.g. loading another user's saved pick
+  useEffect(() => {
+    const index = CHARACTER_IDS.indexOf(characterId);
+    if (api && api.selectedScrollSnap() !== index) {
+      api.scrollTo(index, true);
+    }
+  }, [api, characterId]);
+
+  return (
+    <Carousel
+      setApi={setApi}
+      opts={{ startIndex: CHARACTER_IDS.indexOf(characterId) }}
+      className="mx-12 rounded-lg bg-black/40 text-white"
+    >
+      <CarouselContent>
+        {CHARACTER_IDS.map((id) => {
+          const character = getCharacter(id);
+          const hitbox = getHelicopterHitbox(0, 0, character);
+          return (
+            <CarouselItem key={id} className="flex flex-col items-center py-2">
+              <span className="text-3xl" aria-hidden>
+                {character.emoji}
+              </span>
+              <span className="font-semibold">{character.name}</span>
+              <span className="text-xs text-neutral-300">
+                Hitbox {hitbox.width}×{hitbox.height}
+              </span>
+            </CarouselItem>
+          );
+        })}
+      </CarouselContent>
+      <CarouselPrevious className="-left-10" />
+      <CarouselNext className="-right-10" />
+    </Carousel>
+  );
+}
@@ -2,104 +2,218 @@
 
 import { useEffect, useCallback, useState, useRef } from "react";
 import sdk from "@farcaster/frame-sdk";
-import type { FrameContext } from "@farcaster/frame-sdk";
+import type { Context } from "@farcaster/frame-sdk";
 import { PROJECT_TITLE } from "~/lib/constants";
 import { useGameState } from "~/hooks/useGameState";
 import { useCanvas } from "~/hooks/useCanvas";
 import { useGameLoop } from "~/hooks/useGameLoop";
+import { useSettings } from "~/hooks/useSettings";
+import { useBestRun } from "~/hooks/useBestRun";
+import { useCharacter } from "~/hooks/useCharacter";
+import { useAchievements } from "~/hooks/useAchievements";
+import { useCoins } from "~/hooks/useCoins";
+import { useLazyRef } from "~/hooks/useLazyRef";
+import { CharacterPicker } from "~/components/CharacterPicker";
+import { Leaderboard } from "~/components/Leaderboard";
+import { ReplayViewer } from "~/components/ReplayViewer";
+import { Settings } from "~/components/Settings";
+import { Toaster } from "~/components/ui/toaster";
+import type { Challenge } from "~/lib/challenges";
+import { ensureSignedIn } from "~/lib/signIn";
+import {
+  BACKGROUND_SCROLL_SPEED,
+  GROUND_HEIGHT,
+  OBSTACLE_POOL_SIZE,
+  POWER_UP_POOL_SIZE,
+  TICK_RATE,
+} from "~/lib/game/constants";
+import {
+  drawButton,
+  drawCoins,
+  drawExplosion,
+  drawFrameStats,
+  drawHelicopter,
+  drawObstacles,
+  drawPowerUps,
+  drawPowerUpTimers,
+  drawShield,
+  drawTargetLine,
+  findButtonAt,
+  type CanvasButton,
+} from "~/lib/game/render";
+import {
+  drawParallaxLayers,
+  drawSky,
+  getDayPhase,
+  getPalette,
+} from "~/lib/game/background";
+import { getUnlockedCosmetics, reportTickEvents } from "~/lib/game/achievements";
+import { getCharacter } from "~/lib/game/characters";
+import {
+  DEFAULT_SKIN_ID,
+  DEFAULT_TRAIL_ID,
+  SKINS,
+  TRAILS,
+} from "~/lib/game/cosmetics";
+import { DAILY_DIFFICULTY_ID, getChallengeDate, getDailySeed } from "~/lib/game/daily";
+import { DEFAULT_DIFFICULTY_ID, DIFFICULTY_PROFILES, isDifficultyId } from "~/lib/game/difficulty";
+import { createFrameStats, recordFrame } from "~/lib/game/frameStats";
+import { getSafeY } from "~/lib/game/obstacles";
+import {
+  createInputLog,
+  encodeInputLog,
+  isThrustingAt,
+  recordInput,
+  type InputLog,
+} from "~/lib/game/replay";
+import {
+  clearParticles,
+  createEmitter,
+  createParticleSystem,
+  DEBRIS,
+  drawParticles,
+  emitBurst,
+  EXHAUST,
+  SPARKLES,
+  updateEmitter,
+  updateParticleBudget,
+  updateParticles,
+} from "~/lib/game/particles";
+import { loadHelicopterAtlas, type HelicopterAtlas } from "~/lib/game/sprites";
+import {
+  advanceSimulation,
+  cloneSimulation,
+  copySimulation,
+  createSimulation,
+  getDistance,
+  getHelicopterScale,
+  getObstacleAllocationCount,
+  interpolateSimulation,
+  type SimulationState,
+} from "~/lib/game/simulation";
 
-// Background scroll configuration
-const BACKGROUND_SCROLL_SPEED = 50; // pixels per second
-const GROUND_HEIGHT = 50; // pixels
-
-// Helicopter physics parameters
-const GRAVITY = 600; // pixels per second squared
-const THRUST = -400; // negative because y-axis is inverted in canvas
-const MAX_VELOCITY = 400; // maximum vertical velocity
-const ROTATION_FACTOR = 0.15; // how much the helicopter rotates based on velocity
-const HORIZONTAL_SPEED = 60; // constant horizontal speed
-const ACCELERATION_FACTOR = 0.85; // smoothing factor for acceleration (0-1)
-const DECELERATION_FACTOR = 0.95; // smoothing factor for deceleration (0-1)
-const TERMINAL_VELOCITY = 800; // absolute maximum velocity
-
-// Character configuration
-const ROCKET_EMOJI = '🚀';
-const ROCKET_EMOJI_WIDTH = 40;
-const ROCKET_EMOJI_HEIGHT = 40;
-const HELICOPTER_WIDTH = 40;
-const HELICOPTER_HEIGHT = 40;
-const DEFAULT_CONFIG = {
-  emoji: ROCKET_EMOJI,
-  color: '#FFD700',
-  size: 40
-};
-const rotorWidth = 8;
-const rotorHeight = 30;
-export const config = {
-  emoji: ROCKET_EMOJI,
-  color: '#FFD700',
-  size: 40
+// Canvas layers, bottom first: the sky is only repainted when the day/night
+// palette changes, the world every frame, and the HUD and menus on top
+const CANVAS_LAYERS = ['background', 'midground', 'foreground'] as const;
+
+// Buttons drawn on the start and game over screens
+type ScreenButtonId = 'PLAY_AGAIN' | 'SHARE' | 'REPLAY' | 'LEADERBOARD' | 'DAILY' | 'CHALLENGE' | 'SETTINGS';
+const SCREEN_BUTTON_WIDTH = 150;
+const SCREEN_BUTTON_HEIGHT = 40;
+const SCREEN_BUTTON_GAP = 10;
+const SETTINGS_BUTTON_SIZE = 40;
+
+// Where the exhaust leaves the helicopter, relative to its centre before tilting
+const EXHAUST_OFFSET_X = -14;
+const EXHAUST_OFFSET_Y = 8;
+
+// Ghost of the best run is drawn translucent behind the live helicopter
+const GHOST_OPACITY = 0.35;
+
+// Ghost run replayed in lockstep with the live one, stepped in place like it
+type Ghost = {
+  log: InputLog;
+  distance: number; // meters the best run reached
+  state: SimulationState;
+  previous: SimulationState;
+  render: SimulationState;
 };
 
-// Hitbox configuration (slightly smaller than visual size for better gameplay)
-const HITBOX_PADDING = 5; // pixels to reduce hitbox size by
-
-// Obstacle configuration
-const OBSTACLE_WIDTH = 60;
-const OBSTACLE_GAP_MIN = 130; // Minimum gap between pipes
-const OBSTACLE_GAP_MAX = 180; // Maximum gap between pipes
-const OBSTACLE_SPACING_MIN = 250; // Minimum horizontal spacing between obstacles
-const OBSTACLE_SPACING_MAX = 350; // Maximum horizontal spacing between obstacles
-const OBSTACLE_POOL_SIZE = 6; // Number of obstacles to keep in the pool
-
-// Game speed configuration
-const INITIAL_GAME_SPEED = 1.0;
-const MAX_GAME_SPEED = 1.8;
-const SPEED_INCREASE_RATE = 0.05; // How much to increase speed per 100 points
-const SPEED_INCREASE_INTERVAL = 100; // Score interval for speed increases
-
-// Collision types
-type Rect = {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+// Warpcast compose screen used by the Share button
+const WARPCAST_COMPOSE_URL = 'https://warpcast.com/~/compose';
+
+// Today's daily challenge as returned by /api/daily
+type DailyChallenge = {
+  challengeDate: string;
+  seed: number;
+  attemptsRemaining: number;
 };
 
-// Obstacle configuration
-type Obstacle = {
-  x: number;
-  topHeight: number;
-  bottomY: number;
-  bottomHeight: number;
-  width: number;
-  passed: boolean;
-  active: boolean; // Whether this obstacle is currently in use
+// A ranked daily attempt started with /api/daily, redeemed by submitting its run
+type RankedAttempt = {
+  challengeDate: string;
+  attemptToken: string;
 };
 
 export default function Frame() {
   const [isSDKLoaded, setIsSDKLoaded] = useState(false);
-  const [context, setContext] = useState<FrameContext | undefined>();
+  const [frameContext, setFrameContext] = useState<Context.FrameContext | undefined>();
   const [added, setAdded] = useState(false);
   const gameContainerRef = useRef<HTMLDivElement>(null);
   
-  // Background scroll position
-  const [bgScrollX, setBgScrollX] = useState(0);
+  // Per-frame values live in refs so the game loop never re-renders the component.
+  // React state below is only for screen-level changes.
   
-  // Helicopter physics state
-  const [heliPosition, setHeliPosition] = useState({ x: 0, y: 0 });
-  const [heliVelocity, setHeliVelocity] = useState(0);
-  const [heliAcceleration, setHeliAcceleration] = useState(0);
-  const [isThrusting, setIsThrusting] = useState(false);
-  const [rotationAngle, setRotationAngle] = useState(0);
+  // Background scroll position on the start screen
+  const bgScrollXRef = useRef(0);
   
-  // Obstacle object pool
-  const [obstaclePool, setObstaclePool] = useState<Obstacle[]>([]);
-  const [activeObstacles, setActiveObstacles] = useState<Obstacle[]>([]);
-  const [collisionDebug, setCollisionDebug] = useState(false);
+  // Whether thrust is held right now, read by the next tick
+  const thrustingRef = useRef(false);
+  
+  // Frame timings for the performance overlay
+  const frameStatsRef = useLazyRef(createFrameStats);
+  
+  // Helicopter sprites, preloaded before the frame is shown; null draws the emoji
+  const [spriteAtlas, setSpriteAtlas] = useState<HelicopterAtlas | null>(null);
+  
+  // When the current run crashed, for the explosion animation
+  const crashTimeRef = useRef(0);
+  
+  // Visual effects, pooled for the lifetime of the component; the exhaust
+  // trail follows the world's scroll, which is tracked between frames
+  const particlesRef = useLazyRef(createParticleSystem);
+  const exhaustRef = useLazyRef(() => createEmitter(EXHAUST));
+  const particleScrollXRef = useRef(0);
+  
+  // What the background layer was last painted with
+  const skyKeyRef = useRef('');
+  
+  // Game simulation state for the current run, plus the previous tick for interpolation
+  // and a scratch state to render into. All three are reused for the whole run.
+  const simulationRef = useRef<SimulationState | null>(null);
+  const previousSimulationRef = useRef<SimulationState | null>(null);
+  const renderSimulationRef = useRef<SimulationState | null>(null);
+  
+  // Input log of the current run, and the last finished run for the replay viewer
+  const inputLogRef = useRef<InputLog | null>(null);
+  const [lastRun, setLastRun] = useState<InputLog | null>(null);
   
-  // Game speed (increases as score increases)
-  const [gameSpeed, setGameSpeed] = useState(INITIAL_GAME_SPEED);
+  // Server id of the last verified run, used for share links
+  const [lastRunId, setLastRunId] = useState<string | null>(null);
+  
+  // Run whose shared link opened the frame, until the visitor's first game
+  const sharedRunIdRef = useRef<string | null>(null);
+  
+  // Challenge from a /?challenge=<runId> link
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  
+  // Player settings, and the best run raced as a ghost in classic mode
+  const { settings, updateSettings } = useSettings();
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const classicDifficulty = isDifficultyId(settings.difficulty) ? settings.difficulty : DEFAULT_DIFFICULTY_ID;
+  const { bestRun, bestRunDistance, recordRun } = useBestRun(classicDifficulty);
+  const { characterId, selectCharacter } = useCharacter(frameContext?.user?.fid);
+  
+  // Achievements, and the cosmetics they unlock; equipped ones only show while unlocked
+  const { unlocked, recordRunEvent, setServerRecord } = useAchievements(frameContext?.user?.fid);
+  const { balance: coinBalance, purchasedSkins, addCoins, setBalance: setCoinBalance, buySkin } = useCoins(frameContext?.user?.fid);
+  const unlockedCosmetics = getUnlockedCosmetics(unlocked, purchasedSkins);
+  const skin = SKINS[unlockedCosmetics.skins.includes(settings.skin) ? settings.skin : DEFAULT_SKIN_ID];
+  const trail = TRAILS[unlockedCosmetics.trails.includes(settings.trail) ? settings.trail : DEFAULT_TRAIL_ID];
+  
+  // The exhaust follows the equipped trail
+  useEffect(() => {
+    exhaustRef.current.config = trail.emitter;
+  }, [exhaustRef, trail]);
+  const ghostRun = settings.ghostRacing ? bestRun : null;
+  const ghostRef = useRef<Ghost | null>(null);
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+  const [isLeaderboardOpen, setIsLeaderboardOpen] = useState(false);
+  
+  // Daily challenge status, and the attempt the current run is played as when it is ranked
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallenge | null>(null);
+  const rankedAttemptRef = useRef<RankedAttempt | null>(null);
+  const [collisionDebug, setCollisionDebug] = useState(false);
   
   // Transaction hash for potential future use
   const [txHash, setTxHash] = useState<string | null>(null);
@@ -111,68 +225,59 @@ export default function Frame() {
     bestScore, 
     lastScore, 
     hasPlayedBefore, 
+    seed,
+    mode,
     startGame, 
     endGame, 
-    restartGame, 
-    incrementScore 
+    restartGame
   } = useGameState();
   
   // Use our canvas hook to get the canvas and context
-  const { canvas, context, width, height } = useCanvas(gameContainerRef);
-
-  // Initialize obstacle pool
+  const { canvas, context, layers, width, height, pixelRatio, resizeCount } = useCanvas(gameContainerRef, CANVAS_LAYERS);
+  const hasCanvasSize = width > 0 && height > 0;
+  
+  // Only read when a run starts, so resizing the frame or toggling the ghost
+  // mid-run doesn't restart it
+  const runSetupRef = useRef({ width, height, ghostRun, bestRunDistance });
   useEffect(() => {
-    if (width && height) {
-      // Create a pool of reusable obstacle objects
-      const pool: Obstacle[] = [];
-      for (let i = 0; i < OBSTACLE_POOL_SIZE; i++) {
-        pool.push({
-          x: 0,
-          topHeight: 0,
-          bottomY: 0,
-          bottomHeight: 0,
-          width: OBSTACLE_WIDTH,
-          passed: false,
-          active: false
-        });
-      }
-      setObstaclePool(pool);
-    }
-  }, [width, height]);
+    runSetupRef.current = { width, height, ghostRun, bestRunDistance };
+  }, [width, height, ghostRun, bestRunDistance]);
 
-  // Reset helicopter position and obstacles when game starts
+  // Start a fresh simulation when the game starts
   useEffect(() => {
-    if (status === 'PLAYING' && width && height) {
-      setHeliPosition({
-        x: width / 4,
-        y: height / 2
-      });
-      setHeliVelocity(0);
-      setHeliAcceleration(0);
-      setRotationAngle(0);
-      setGameSpeed(INITIAL_GAME_SPEED);
+    if (status === 'PLAYING' && seed !== null && hasCanvasSize) {
+      const { width, height, ghostRun, bestRunDistance } = runSetupRef.current;
+      // Daily runs are all flown on one profile, and challenge runs on the challenger's
+      const difficulty = mode === 'daily'
+        ? DAILY_DIFFICULTY_ID
+        : mode === 'challenge' && challenge ? challenge.difficulty : classicDifficulty;
       
-      // Reset all obstacles to inactive
-      setObstaclePool(prev => prev.map(obstacle => ({
-        ...obstacle,
-        active: false,
-        passed: false
-      })));
+      // Ghost races are run on the best run's course
+      const ghost = mode === 'classic' && ghostRun?.seed === seed && ghostRun.difficulty === difficulty ? ghostRun : null;
+      if (ghost) {
+        const state = createSimulation(ghost.width, ghost.height, ghost.seed, ghost.character, ghost.difficulty);
+        ghostRef.current = {
+          log: ghost,
+          distance: bestRunDistance,
+          state,
+          previous: cloneSimulation(state),
+          render: cloneSimulation(state)
+        };
+      } else {
+        ghostRef.current = null;
+      }
       
-      // Clear active obstacles
-      setActiveObstacles([]);
+      // Challenge runs are played on the challenger's exact course, world size included
+      const course = mode === 'challenge' && challenge ? challenge : ghost ?? { width, height };
+      simulationRef.current = createSimulation(course.width, course.height, seed, characterId, difficulty);
+      clearParticles(particlesRef.current);
+      recordRunEvent({ type: 'runStarted', date: getChallengeDate() });
+      particleScrollXRef.current = simulationRef.current.scrollX;
+      previousSimulationRef.current = cloneSimulation(simulationRef.current);
+      renderSimulationRef.current = cloneSimulation(simulationRef.current);
+      inputLogRef.current = createInputLog(seed, course.width, course.height, characterId, difficulty);
     }
-  }, [status, width, height]);
-
-  // Update game speed based on score
-  useEffect(() => {
-    if (status === 'PLAYING') {
-      // Calculate new game speed based on score
-      const speedIncrease = Math.floor(score / SPEED_INCREASE_INTERVAL) * SPEED_INCREASE_RATE;
-      const newSpeed = Math.min(INITIAL_GAME_SPEED + speedIncrease, MAX_GAME_SPEED);
-      setGameSpeed(newSpeed);
-    }
-  }, [score, status]);
+  }, [status, seed, mode, challenge, hasCanvasSize, characterId, classicDifficulty, particlesRef, recordRunEvent]);
 
   // Toggle collision debug mode with 'd' key
   useEffect(() => {
@@ -198,389 +303,166 @@ export default function Frame() {
     }
   }, []);
 
-  // Get helicopter hitbox
-  const getHelicopterHitbox = useCallback((): Rect => {
-    return {
-      x: heliPosition.x - (HELICOPTER_WIDTH / 2) + HITBOX_PADDING,
-      y: heliPosition.y - (HELICOPTER_HEIGHT / 2) + HITBOX_PADDING,
-      width: HELICOPTER_WIDTH - (HITBOX_PADDING * 2),
-      height: HELICOPTER_HEIGHT - (HITBOX_PADDING * 2)
-    };
-  }, [heliPosition]);
-
-  // Check if two rectangles intersect (collision detection)
-  const checkCollision = useCallback((rect1: Rect, rect2: Rect): boolean => {
-    return (
-      rect1.x < rect2.x + rect2.width &&
-      rect1.x + rect1.width > rect2.x &&
-      rect1.y < rect2.y + rect2.height &&
-      rect1.y + rect1.height > rect2.y
-    );
-  }, []);
-
-  // Check if helicopter collides with any obstacle
-  const checkObstacleCollisions = useCallback(() => {
-    if (status !== 'PLAYING') return false;
-    
-    const heliHitbox = getHelicopterHitbox();
-    
-    // Check collision with each active obstacle
-    for (const obstacle of activeObstacles) {
-      if (!obstacle.active) continue;
-      
-      // Top pipe hitbox
-      const topPipeHitbox: Rect = {
-        x: obstacle.x,
-        y: 0,
-        width: obstacle.width,
-        height: obstacle.topHeight
-      };
-      
-      // Bottom pipe hitbox
-      const bottomPipeHitbox: Rect = {
-        x: obstacle.x,
-        y: obstacle.bottomY,
-        width: obstacle.width,
-        height: obstacle.bottomHeight
-      };
-      
-      // Check collision with either pipe
-      if (
-        checkCollision(heliHitbox, topPipeHitbox) ||
-        checkCollision(heliHitbox, bottomPipeHitbox)
-      ) {
-        return true;
-      }
-    }
-    
-    return false;
-  }, [status, activeObstacles, getHelicopterHitbox, checkCollision]);
-
-  // Draw the scrolling background
-  const drawBackground = useCallback((ctx: CanvasRenderingContext2D, w: number, h: number, scrollX: number) => {
-    // Sky
-    const skyGradient = ctx.createLinearGradient(0, 0, 0, h - GROUND_HEIGHT);
-    skyGradient.addColorStop(0, '#87CEEB'); // Sky blue at top
-    skyGradient.addColorStop(1, '#E0F7FF'); // Lighter blue at horizon
-    ctx.fillStyle = skyGradient;
-    ctx.fillRect(0, 0, w, h - GROUND_HEIGHT);
-    
-    // Clouds (simple version)
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
-    
-    // Draw a few clouds at different positions
-    const cloudPositions = [
-      { x: (100 - scrollX * 0.2) % w, y: 50, width: 80, height: 40 },
-      { x: (300 - scrollX * 0.2) % w, y: 80, width: 120, height: 50 },
-      { x: (600 - scrollX * 0.2) % w, y: 40, width: 100, height: 45 },
-      { x: (900 - scrollX * 0.2) % w, y: 70, width: 90, height: 35 },
-    ];
-    
-    // Wrap clouds around the screen
-    cloudPositions.forEach(cloud => {
-      if (cloud.x < -cloud.width) {
-        cloud.x += w + cloud.width;
-      }
-      
-      // Draw a simple cloud shape
-      ctx.beginPath();
-      ctx.arc(cloud.x + cloud.width * 0.3, cloud.y + cloud.height * 0.5, cloud.height * 0.5, 0, Math.PI * 2);
-      ctx.arc(cloud.x + cloud.width * 0.7, cloud.y + cloud.height * 0.5, cloud.height * 0.6, 0, Math.PI * 2);
-      ctx.arc(cloud.x + cloud.width * 0.5, cloud.y + cloud.height * 0.3, cloud.height * 0.4, 0, Math.PI * 2);
-      ctx.fill();
-    });
-    
-    // Ground
-    const groundGradient = ctx.createLinearGradient(0, h - GROUND_HEIGHT, 0, h);
-    groundGradient.addColorStop(0, '#8B4513'); // Brown at top
-    groundGradient.addColorStop(1, '#654321'); // Darker brown at bottom
-    ctx.fillStyle = groundGradient;
-    ctx.fillRect(0, h - GROUND_HEIGHT, w, GROUND_HEIGHT);
-    
-    // Ground details (simple stripes)
-    ctx.fillStyle = '#5D4037';
-    
-    // Draw ground stripes that scroll with the background
-    const stripeWidth = 30;
-    const stripeSpacing = 50;
-    const numStripes = Math.ceil(w / stripeSpacing) + 1;
-    
-    for (let i = 0; i < numStripes; i++) {
-      const stripeX = (i * stripeSpacing - scrollX) % w;
-      if (stripeX < -stripeWidth) continue;
-      ctx.fillRect(stripeX, h - GROUND_HEIGHT + 10, stripeWidth, 5);
-    }
-  }, []);
-
-  // Draw obstacles (pipes)
-  const drawObstacles = useCallback((ctx: CanvasRenderingContext2D) => {
-    if (!activeObstacles.length) return;
+  // Buttons for the current screen, stacked from the top down
+  const getScreenButtons = useCallback((): CanvasButton<ScreenButtonId>[] => {
+    if (!width || !height) return [];
+    
+    const stack = (top: number, buttons: Omit<CanvasButton<ScreenButtonId>, 'x' | 'y' | 'width' | 'height'>[]) =>
+      buttons.map((button, i) => ({
+        ...button,
+        x: width / 2 - SCREEN_BUTTON_WIDTH / 2,
+        y: top + i * (SCREEN_BUTTON_HEIGHT + SCREEN_BUTTON_GAP),
+        width: SCREEN_BUTTON_WIDTH,
+        height: SCREEN_BUTTON_HEIGHT
+      }));
     
-    // Pipe style
-    const pipeColor = '#2E8B57'; // Sea green
-    const pipeBorderColor = '#1C6E44';
-    const pipeCapHeight = 15;
-    
-    activeObstacles.forEach(obstacle => {
-      if (!obstacle.active) return;
-      
-      // Draw top pipe
-      ctx.fillStyle = pipeColor;
-      ctx.fillRect(obstacle.x, 0, obstacle.width, obstacle.topHeight);
-      
-      // Draw top pipe cap
-      ctx.fillStyle = pipeBorderColor;
-      ctx.fillRect(obstacle.x - 5, obstacle.topHeight - pipeCapHeight, obstacle.width + 10, pipeCapHeight);
-      
-      // Draw bottom pipe
-      ctx.fillStyle = pipeColor;
-      ctx.fillRect(obstacle.x, obstacle.bottomY, obstacle.width, obstacle.bottomHeight);
-      
-      // Draw bottom pipe cap
-      ctx.fillStyle = pipeBorderColor;
-      ctx.fillRect(obstacle.x - 5, obstacle.bottomY, obstacle.width + 10, pipeCapHeight);
+    if (status === 'START') {
+      const dailyLabel = frameContext?.user?.fid && dailyChallenge
+        ? `Daily (${dailyChallenge.attemptsRemaining} left)`
+        : 'Daily Challenge';
       
-      // Draw hitboxes in debug mode
-      if (collisionDebug || process.env.NODE_ENV === 'development') {
-        ctx.strokeStyle = 'red';
-        ctx.lineWidth = 2;
-        
-        // Top pipe hitbox
-        ctx.strokeRect(obstacle.x, 0, obstacle.width, obstacle.topHeight);
-        
-        // Bottom pipe hitbox
-        ctx.strokeRect(obstacle.x, obstacle.bottomY, obstacle.width, obstacle.bottomHeight);
-      }
-    });
-  }, [activeObstacles, collisionDebug]);
-
-  // Draw the helicopter
-  const drawHelicopter = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, velocity: number, rotation: number) => {
-    // Save the current context state
-    ctx.save();
-    
-    // Translate to the helicopter's position
-    ctx.translate(x, y);
-    
-    // Rotate based on velocity
-    ctx.rotate((rotation * Math.PI / 180) + Math.PI/2); // Add 90deg rotation to point rocket upward
-    
-    // Draw rocket emoji
-    ctx.font = `${config.size}px Arial`;
-    ctx.fillStyle = config.color;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(config.emoji, 0, 0);
-    
-    // Add boost effect when thrusting
-    
-    // Rotor animation based on game time
-    const rotorOffset = isThrusting ? Math.sin(Date.now() * 0.05) * 5 : 0;
-    
-    ctx.fillRect(-rotorWidth / 2 + rotorOffset, -HELICOPTER_HEIGHT / 2 - 5, rotorWidth, rotorHeight);
-    
-    // Draw helicopter tail
-    ctx.fillStyle = '#FFD700';
-    ctx.fillRect(HELICOPTER_WIDTH / 2 -  5, -HELICOPTER_HEIGHT / 4, HELICOPTER_WIDTH / 2, HELICOPTER_HEIGHT / 2);
-    
-    // Draw helicopter window
-    ctx.fillStyle = '#87CEEB';
-    ctx.fillRect(-HELICOPTER_WIDTH / 4, -HELICOPTER_HEIGHT / 4, HELICOPTER_WIDTH / 3, HELICOPTER_HEIGHT / 2);
-    
-    // Draw thrust effect when thrusting
-    if (isThrusting) {
-      ctx.fillStyle = '#FF4500';
-      ctx.beginPath();
-      ctx.moveTo(-HELICOPTER_WIDTH / 2, 0);
-      ctx.lineTo(-HELICOPTER_WIDTH / 2 - 15, -10);
-      ctx.lineTo(-HELICOPTER_WIDTH / 2 - 15, 10);
-      ctx.closePath();
-      ctx.fill();
+      const buttons = [
+        ...(challenge ? [{ id: 'CHALLENGE' as const, label: 'Accept Challenge', color: '#E91E63' }] : []),
+        { id: 'DAILY' as const, label: dailyLabel, color: '#9C27B0' },
+        { id: 'LEADERBOARD' as const, label: 'Leaderboard', color: '#FF9800' }
+      ];
       
-      // Add some flame particles
-      ctx.fillStyle = '#FFA500';
-      ctx.beginPath();
-      ctx.moveTo(-HELICOPTER_WIDTH / 2, 0);
-      ctx.lineTo(-HELICOPTER_WIDTH / 2 - 10, -5);
-      ctx.lineTo(-HELICOPTER_WIDTH / 2 - 10, 5);
-      ctx.closePath();
-      ctx.fill();
+      return [
+        ...stack(height - GROUND_HEIGHT - 20 - buttons.length * (SCREEN_BUTTON_HEIGHT + SCREEN_BUTTON_GAP) + SCREEN_BUTTON_GAP, buttons),
+        {
+          id: 'SETTINGS',
+          label: '⚙',
+          color: 'rgba(0, 0, 0, 0.4)',
+          x: 10,
+          y: 10,
+          width: SETTINGS_BUTTON_SIZE,
+          height: SETTINGS_BUTTON_SIZE
+        }
+      ];
     }
     
-    // Draw hitbox for debugging
-    if (collisionDebug || process.env.NODE_ENV === 'development') {
-      const hitbox = {
-        x: heliPosition.x - (ROCKET_EMOJI_WIDTH / 2) + HITBOX_PADDING,
-        y: heliPosition.y - (ROCKET_EMOJI_HEIGHT / 2) + HITBOX_PADDING,
-        width: ROCKET_EMOJI_WIDTH - (HITBOX_PADDING * 2),
-        height: ROCKET_EMOJI_HEIGHT - (HITBOX_PADDING * 2)
-      };
-      
-      // Convert hitbox to local coordinates
-      const localHitboxX = hitbox.x - x;
-      const localHitboxY = hitbox.y - y;
-      
-      ctx.strokeStyle = 'red';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(localHitboxX, localHitboxY, hitbox.width, hitbox.height);
+    if (status === 'GAME_OVER') {
+      return stack(height / 2 + 60, [
+        { id: 'PLAY_AGAIN', label: 'Play Again', color: '#4CAF50' },
+        ...(lastRunId ? [{ id: 'SHARE' as const, label: 'Share Score', color: '#8A63D2' }] : []),
+        ...(lastRun ? [{ id: 'REPLAY' as const, label: 'Watch Replay', color: '#2196F3' }] : []),
+        { id: 'LEADERBOARD', label: 'Leaderboard', color: '#FF9800' }
+      ]);
     }
     
-    // Restore the context state
-    ctx.restore();
-  }, [isThrusting, getHelicopterHitbox, collisionDebug]);
-
-  // Get an inactive obstacle from the pool
-  const getInactiveObstacle = useCallback(() => {
-    return obstaclePool.find(obstacle => !obstacle.active);
-  }, [obstaclePool]);
+    return [];
+  }, [status, width, height, lastRun, lastRunId, dailyChallenge, challenge, frameContext]);
 
-  // Generate a new obstacle with randomized gap
-  const generateObstacle = useCallback((startX: number) => {
-    if (!width || !height) return null;
-    
-    // Get an inactive obstacle from the pool
-    const obstacle = getInactiveObstacle();
-    if (!obstacle) return null; // No available obstacles in the pool
-    
-    // Randomize gap height and position
-    const gapHeight = Math.floor(Math.random() * (OBSTACLE_GAP_MAX - OBSTACLE_GAP_MIN)) + OBSTACLE_GAP_MIN;
-    
-    // Ensure the gap isn't too close to the top or bottom
-    const minTopHeight = 50; // Minimum height of top pipe
-    const maxTopHeight = height - GROUND_HEIGHT - gapHeight - 50; // Maximum height of top pipe
+  // Render the current frame, interpolating `alpha` of the way from the previous tick
+  const renderCanvas = useCallback((alpha: number) => {
+    if (!context || !canvas || !layers || !width || !height) return;
+    
+    const simulation = simulationRef.current && previousSimulationRef.current && renderSimulationRef.current
+      ? interpolateSimulation(previousSimulationRef.current, simulationRef.current, alpha, renderSimulationRef.current)
+      : simulationRef.current;
+    
+    // Fit the simulated world into the canvas; it only differs in size on challenge runs
+    const world = status !== 'START' ? simulation : null;
+    const worldWidth = world ? world.width : width;
+    const worldHeight = world ? world.height : height;
+    const worldScale = Math.min(width / worldWidth, height / worldHeight);
+    const scrollX = world ? world.scrollX : bgScrollXRef.current;
+    const applyWorldTransform = (layerContext: CanvasRenderingContext2D) => {
+      layerContext.translate((width - worldWidth * worldScale) / 2, (height - worldHeight * worldScale) / 2);
+      layerContext.scale(worldScale, worldScale);
+    };
     
-    // Calculate random top pipe height
-    const topHeight = Math.floor(Math.random() * (maxTopHeight - minTopHeight)) + minTopHeight;
-    const bottomY = topHeight + gapHeight;
+    const debug = collisionDebug || process.env.NODE_ENV === 'development';
+    const now = performance.now();
+    const helicopterOptions = {
+      // Runs keep the character they started with; the start screen previews the pick
+      character: getCharacter(world ? world.character : characterId),
+      thrusting: status === 'PLAYING' && thrustingRef.current,
+      debug,
+      skin,
+      atlas: spriteAtlas,
+      time: now / 1000
+    };
     
-    // Update the obstacle properties
-    obstacle.x = startX;
-    obstacle.topHeight = topHeight;
-    obstacle.bottomY = bottomY;
-    obstacle.bottomHeight = height - bottomY;
-    obstacle.width = OBSTACLE_WIDTH;
-    obstacle.passed = false;
-    obstacle.active = true;
+    // Colors for this point in the day/night cycle
+    const dayPhase = getDayPhase(scrollX);
+    const palette = getPalette(dayPhase);
+    
+    // Repaint the sky only when the palette or the layout changed
+    const skyKey = [resizeCount, pixelRatio, worldWidth, worldHeight, dayPhase].join(':');
+    if (skyKey !== skyKeyRef.current) {
+      skyKeyRef.current = skyKey;
+      const skyContext = layers.background.context;
+      skyContext.clearRect(0, 0, width, height);
+      skyContext.save();
+      applyWorldTransform(skyContext);
+      drawSky(skyContext, worldWidth, worldHeight, palette);
+      skyContext.restore();
+    }
     
-    return obstacle;
-  }, [width, height, getInactiveObstacle]);
-
-  // Update obstacles - move them and check if they're off screen
-  const updateObstacles = useCallback((deltaTime: number) => {
-    if (status !== 'PLAYING') return;
+    // The world layer, parallax scenery included, is redrawn every frame
+    const worldContext = layers.midground.context;
+    worldContext.clearRect(0, 0, width, height);
+    worldContext.save();
+    applyWorldTransform(worldContext);
     
-    // Calculate the actual scroll speed based on game speed
-    const scrollSpeed = BACKGROUND_SCROLL_SPEED * gameSpeed;
+    drawParallaxLayers(worldContext, worldWidth, worldHeight, scrollX, palette);
     
-    // Move active obstacles based on scroll speed
-    const updatedObstacles = activeObstacles.map(obstacle => {
-      if (!obstacle.active) return obstacle;
-      
-      // Move obstacle left at the synchronized speed
-      const newX = obstacle.x - scrollSpeed * deltaTime;
-      
-      // Check if helicopter has passed this obstacle
-      let passed = obstacle.passed;
-      if (!passed && newX + obstacle.width < heliPosition.x - HELICOPTER_WIDTH / 2) {
-        passed = true;
-        // Increment score when passing an obstacle
-        incrementScore(5); // Keep the parameter since we added optional points
-      }
-      
-      // Check if obstacle is off screen
-      if (newX + obstacle.width < 0) {
-        // Deactivate this obstacle so it can be reused
-        return { ...obstacle, active: false };
-      }
-      
-      return {
-        ...obstacle,
-        x: newX,
-        passed
-      };
-    });
-    
-    // Filter out inactive obstacles
-    const filteredObstacles = updatedObstacles.filter(obstacle => obstacle.active);
-    
-    // Check if we need to add new obstacles
-    let lastObstacleX = 0;
-    if (filteredObstacles.length > 0) {
-      // Find the rightmost obstacle
-      lastObstacleX = Math.max(...filteredObstacles.map(o => o.x));
-    } else if (width) {
-      // No obstacles yet, start from the right edge of the screen
-      lastObstacleX = width;
+    // Draw obstacles
+    if (simulation) {
+      drawObstacles(worldContext, simulation.obstacles, debug);
+      drawCoins(worldContext, simulation.coins);
+      drawPowerUps(worldContext, simulation.powerUps);
     }
+    drawParticles(worldContext, particlesRef.current);
     
-    // Add new obstacles if needed
-    if (width && (filteredObstacles.length === 0 || lastObstacleX < width)) {
-      // Calculate position for the first new obstacle
-      const startX = filteredObstacles.length === 0 ? width + 100 : lastObstacleX;
-      
-      // Generate a new obstacle
-      const newObstacle = generateObstacle(startX);
+    if (world) {
+      // Mark where the challenger crashed
+      if (mode === 'challenge' && challenge) {
+        const name = challenge.username ? `@${challenge.username}` : 'Challenger';
+        drawTargetLine(worldContext, challenge.targetX - world.scrollX, worldHeight, `${name} ${challenge.distance}m`);
+      }
       
-      if (newObstacle) {
-        filteredObstacles.push(newObstacle);
-        
-        // Update the obstacle pool to mark this obstacle as active
-        setObstaclePool(prev => 
-          prev.map(o => o === newObstacle ? { ...o, active: true } : o)
+      // Draw the ghost where the best run was at this tick, relative to our scroll
+      if (ghostRef.current) {
+        const { previous, state, render } = ghostRef.current;
+        const ghost = interpolateSimulation(previous, state, alpha, render);
+        drawHelicopter(
+          worldContext,
+          ghost.helicopter.x + ghost.scrollX - world.scrollX,
+          ghost.helicopter.y,
+          ghost.helicopter.rotation,
+          {
+            ...helicopterOptions,
+            character: getCharacter(ghost.character),
+            skin: undefined,
+            scale: getHelicopterScale(ghost),
+            debug: false,
+            opacity: GHOST_OPACITY
+          }
         );
       }
-    }
-    
-    // Check if we need to add more obstacles based on spacing
-    if (width && filteredObstacles.length > 0 && filteredObstacles.length < 3) {
-      // Find the rightmost obstacle again (after potentially adding one above)
-      const updatedLastObstacleX = Math.max(...filteredObstacles.map(o => o.x));
-      
-      // Calculate random spacing between obstacles
-      // Adjust spacing based on game speed - faster game = closer obstacles
-      const spacingAdjustment = 1 - ((gameSpeed - INITIAL_GAME_SPEED) / (MAX_GAME_SPEED - INITIAL_GAME_SPEED)) * 0.3;
-      const minSpacing = OBSTACLE_SPACING_MIN * spacingAdjustment;
-      const maxSpacing = OBSTACLE_SPACING_MAX * spacingAdjustment;
-      const spacing = Math.floor(Math.random() * (maxSpacing - minSpacing)) + minSpacing;
       
-      // Generate another obstacle with proper spacing
-      const additionalObstacle = generateObstacle(updatedLastObstacleX + spacing);
+      // Draw the helicopter at its current position with rotation
+      const { helicopter } = world;
+      drawHelicopter(worldContext, helicopter.x, helicopter.y, helicopter.rotation, {
+        ...helicopterOptions,
+        scale: getHelicopterScale(world)
+      });
+      drawShield(worldContext, world, helicopterOptions.character);
       
-      if (additionalObstacle) {
-        filteredObstacles.push(additionalObstacle);
-        
-        // Update the obstacle pool
-        setObstaclePool(prev => 
-          prev.map(o => o === additionalObstacle ? { ...o, active: true } : o)
-        );
+      if (world.status === 'CRASHED') {
+        drawExplosion(worldContext, helicopter.x, helicopter.y, (now - crashTimeRef.current) / 1000, spriteAtlas);
       }
+    } else {
+      // Draw a static helicopter in the start screen
+      drawHelicopter(worldContext, width / 4, height / 2, 0, helicopterOptions);
     }
+    worldContext.restore();
     
-    // Update active obstacles state
-    setActiveObstacles(filteredObstacles);
-  }, [
-    status, 
-    activeObstacles, 
-    width, 
-    heliPosition, 
-    incrementScore, 
-    generateObstacle,
-    gameSpeed
-  ]);
-
-  // Basic render function to test canvas
-  const renderCanvas = useCallback(() => {
-    if (!context || !canvas || !width || !height) return;
-    
-    // Clear the canvas
+    // HUD and menus go on the foreground layer
     context.clearRect(0, 0, width, height);
     
-    // Draw the scrolling background
-    drawBackground(context, width, height, bgScrollX);
-    
-    // Draw obstacles
-    drawObstacles(context);
-    
     // If game is in START state, draw a message
     if (status === 'START') {
       context.fillStyle = 'white';
@@ -588,8 +470,18 @@ export default function Frame() {
       context.textAlign = 'center';
       context.textBaseline = 'middle';
       context.fillText(PROJECT_TITLE, width / 2, height / 2 - 20);
+      
+      if (challenge) {
+        context.font = '16px Arial';
+        context.fillText(
+          `${challenge.username ? `@${challenge.username}` : 'A friend'} challenged you: ${challenge.distance}m`,
+          width / 2,
+          height / 2 - 60
+        );
+      }
+      
       context.font = '18px Arial';
-      context.fillText('Tap to start', width / 2, height / 2 + 20);
+      context.fillText(`Tap to start · ${DIFFICULTY_PROFILES[classicDifficulty].name}`, width / 2, height / 2 + 20);
       
       if (hasPlayedBefore) {
         context.font = '16px Arial';
@@ -599,8 +491,7 @@ export default function Frame() {
         }
       }
       
-      // Draw a static helicopter in the start screen
-      drawHelicopter(context, width / 4, height / 2, 0, 0);
+      getScreenButtons().forEach(button => drawButton(context, button));
     }
     
     // If game is in PLAYING state, draw score and helicopter
@@ -609,28 +500,62 @@ export default function Frame() {
       context.font = '24px Arial';
       context.textAlign = 'right';
       context.textBaseline = 'top';
-      context.fillText(`Score: ${score}`, width - 20, 20);
+      context.fillText(`Score: ${simulation?.score ?? 0}`, width - 20, 20);
       
-      // Draw the helicopter at its current position with rotation
-      drawHelicopter(context, heliPosition.x, heliPosition.y, heliVelocity, rotationAngle);
+      if (mode === 'daily') {
+        context.font = '16px Arial';
+        context.fillText(rankedAttemptRef.current ? 'Daily Challenge' : 'Daily (practice)', width - 20, 52);
+      }
       
-      // Draw game speed indicator in debug mode
-      if (collisionDebug || process.env.NODE_ENV === 'development') {
-        context.fillStyle = 'white';
-        context.font = '14px Arial';
-        context.textAlign = 'left';
-        context.fillText(`Speed: ${gameSpeed.toFixed(2)}x`, 20, 20);
+      if (simulation) {
+        if (mode === 'challenge' && challenge) {
+          context.font = '16px Arial';
+          context.fillText(`${getDistance(simulation)}m / ${challenge.distance}m`, width - 20, 52);
+        }
+        
+        // Both runs scroll at the same pace, so measure against where the best run
+        // ended: meters still to go (-) or flown past it (+)
+        if (ghostRef.current) {
+          const lead = getDistance(simulation) - ghostRef.current.distance;
+          context.font = '16px Arial';
+          context.fillStyle = lead >= 0 ? '#4CAF50' : '#FF5722';
+          context.fillText(`${lead >= 0 ? '+' : ''}${lead}m vs best`, width - 20, 52);
+          context.fillStyle = 'white';
+        }
+        
+        // Countdown rings for running power-ups, under the score lines
+        drawPowerUpTimers(context, simulation.effects, width - 20, 80);
+        
+        // Draw game speed indicator in debug mode
+        if (debug) {
+          context.fillStyle = 'white';
+          context.font = '14px Arial';
+          context.textAlign = 'left';
+          context.fillText(`Speed: ${simulation.gameSpeed.toFixed(2)}x`, 20, 20);
+          context.fillText(`Seed: ${simulation.seed}`, 20, 40);
+          
+          // Obstacle pool usage; allocations should stay at 0/s while playing
+          const { pool } = simulation;
+          context.fillText(`Pool: ${pool.inUse}/${OBSTACLE_POOL_SIZE} (peak ${pool.highWater})`, 20, 60);
+          context.fillText(`Obstacle allocs: ${frameStatsRef.current.allocationsPerSecond.toFixed(0)}/s`, 20, 80);
+          
+          const particles = particlesRef.current;
+          context.fillText(`Particles: ${particles.active}/${particles.budget}`, 20, 100);
+          
+          const activePowerUps = simulation.powerUps.filter(powerUp => powerUp.active).length;
+          context.fillText(`Power-ups: ${activePowerUps}/${POWER_UP_POOL_SIZE}`, 20, 120);
+        }
       }
     }
     
     // If game is in GAME_OVER state, draw game over message
     if (status === 'GAME_OVER') {
-      // Draw the helicopter in its crashed position
-      drawHelicopter(context, heliPosition.x, heliPosition.y, heliVelocity, rotationAngle);
+      const buttons = getScreenButtons();
+      const lastButton = buttons[buttons.length - 1];
       
-      // Semi-transparent overlay
+      // Semi-transparent overlay sized to fit the buttons
       context.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      context.fillRect(width / 2 - 150, height / 2 - 100, 300, 200);
+      context.fillRect(width / 2 - 150, height / 2 - 100, 300, lastButton.y + lastButton.height + 20 - (height / 2 - 100));
       
       context.fillStyle = 'white';
       context.font = '28px Arial';
@@ -638,155 +563,330 @@ export default function Frame() {
       context.textBaseline = 'middle';
       context.fillText('Game Over!', width / 2, height / 2 - 50);
       
+      if (simulation) {
+        context.font = '16px Arial';
+        context.fillText(`🪙 +${simulation.coinsCollected} (${coinBalance} total)`, width / 2, height / 2 - 22);
+      }
+      
       context.font = '20px Arial';
       context.fillText(`Score: ${score}`, width / 2, height / 2);
       
       context.font = '16px Arial';
-      context.fillText(`Best Score: ${bestScore}`, width / 2, height / 2 + 30);
-      
-      // Draw a button-like shape
-      context.fillStyle = '#4CAF50';
-      context.fillRect(width / 2 - 75, height / 2 + 60, 150, 40);
+      if (mode === 'challenge' && challenge && simulation) {
+        // Head-to-head result against the challenger
+        const name = challenge.username ? `@${challenge.username}` : 'your friend';
+        const margin = getDistance(simulation) - challenge.distance;
+        context.fillText(
+          margin > 0 ? `You beat ${name} by ${margin}m!` : margin < 0 ? `${name} wins by ${-margin}m` : `Tied with ${name}!`,
+          width / 2,
+          height / 2 + 30
+        );
+      } else {
+        context.fillText(`Best Score: ${bestScore}`, width / 2, height / 2 + 30);
+      }
       
-      context.fillStyle = 'white';
-      context.font = '16px Arial';
-      context.fillText('Play Again', width / 2, height / 2 + 80);
+      buttons.forEach(button => drawButton(context, button));
+    }
+    
+    if (settings.showFrameStats || debug) {
+      drawFrameStats(context, frameStatsRef.current, 10, height - 10);
     }
   }, [
     context, 
     canvas, 
+    layers,
     width, 
     height, 
+    pixelRatio,
+    resizeCount,
     status, 
     score, 
     bestScore, 
     lastScore, 
     hasPlayedBefore, 
-    PROJECT_TITLE, 
-    bgScrollX, 
-    drawBackground, 
-    drawObstacles,
-    heliPosition, 
-    heliVelocity,
-    rotationAngle,
-    drawHelicopter,
-    gameSpeed,
-    collisionDebug
+    mode,
+    challenge,
+    settings,
+    getScreenButtons,
+    collisionDebug,
+    spriteAtlas,
+    characterId,
+    skin,
+    coinBalance,
+    classicDifficulty,
+    frameStatsRef,
+    particlesRef
   ]);
 
-  // Update helicopter physics with improved velocity-based movement
-  const updateHelicopter = useCallback((deltaTime: number) => {
-    if (status !== 'PLAYING') return;
-    
-    // Calculate target acceleration based on thrust or gravity
-    const targetAcceleration = isThrusting ? THRUST : GRAVITY;
-    
-    // Smoothly interpolate current acceleration toward target
-    const newAcceleration = heliAcceleration * ACCELERATION_FACTOR + 
-                           targetAcceleration * (1 - ACCELERATION_FACTOR);
+  // Submit a finished run so the server can verify it by replaying it
+  const submitRun = useCallback(async (log: InputLog, runScore: number) => {
+    const fid = frameContext?.user?.fid;
+    setLastRunId(null);
+    if (!fid || !(await ensureSignedIn(fid))) return;
     
-    // Update velocity with smoothed acceleration
-    let newVelocity = heliVelocity + newAcceleration * deltaTime;
-    
-    // Apply air resistance (deceleration) when not accelerating strongly
-    if (Math.abs(newAcceleration) < Math.abs(targetAcceleration) * 0.8) {
-      newVelocity *= DECELERATION_FACTOR;
+    try {
+      const response = await fetch("/api/scores", {
+        method: "POST",
+        mode: "same-origin",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          fid,
+          run: encodeInputLog(log),
+          score: runScore,
+          ...(rankedAttemptRef.current && {
+            mode: "daily",
+            ...rankedAttemptRef.current,
+          }),
+          ...(mode === 'challenge' && challenge && {
+            challengeId: challenge.challengeId,
+          }),
+          profile: {
+            username: frameContext?.user?.username,
+            displayName: frameContext?.user?.displayName,
+            pfpUrl: frameContext?.user?.pfpUrl,
+          },
+        }),
+      });
+      
+      if (!response.ok) {
+        console.error("Score rejected:", await response.text());
+        return;
+      }
+      
+      const { runId, coins, achievements } = await response.json();
+      setLastRunId(runId);
+      setCoinBalance(coins);
+      setServerRecord(achievements);
+    } catch (error) {
+      console.error("Error submitting score:", error);
     }
+  }, [frameContext, mode, challenge, setCoinBalance, setServerRecord]);
+
+  // Count a step of the share funnel; failures only cost us a data point
+  const trackShareEvent = useCallback((runId: string, event: 'share' | 'open' | 'play') => {
+    fetch("/api/shares", {
+      method: "POST",
+      mode: "same-origin",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ runId, event }),
+    }).catch(error => console.error("Error tracking share:", error));
+  }, []);
+
+  // Open a prefilled cast with the score card and a link to beat this run
+  const shareScore = useCallback(() => {
+    if (!lastRunId) return;
+    
+    const appUrl = process.env.NEXT_PUBLIC_URL || window.location.origin;
+    const runUrl = `${appUrl}/?runId=${lastRunId}`;
+    const challengeUrl = `${appUrl}/?challenge=${lastRunId}`;
+    const text = `I scored ${score} in ${PROJECT_TITLE}! 🚁 Think you can beat me?`;
+    
+    const params = new URLSearchParams({ text });
+    params.append('embeds[]', runUrl);
+    params.append('embeds[]', challengeUrl);
+    
+    trackShareEvent(lastRunId, 'share');
+    sdk.actions.openUrl(`${WARPCAST_COMPOSE_URL}?${params}`);
+  }, [lastRunId, score, trackShareEvent]);
+
+  // Load the challenge when the frame was opened from a challenge link
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
     
-    // Clamp velocity to maximum
-    newVelocity = Math.max(Math.min(newVelocity, TERMINAL_VELOCITY), -TERMINAL_VELOCITY);
-    
-    // Calculate rotation based on velocity with smoothing
-    const targetRotation = newVelocity * ROTATION_FACTOR;
-    const newRotation = rotationAngle * 0.9 + targetRotation * 0.1;
-    
-    // Update position with velocity
-    const newY = heliPosition.y + newVelocity * deltaTime;
+    const challengeId = new URLSearchParams(window.location.search).get('challenge');
+    if (!challengeId) return;
     
-    // Move forward at constant speed (horizontal movement)
-    const newX = heliPosition.x + HORIZONTAL_SPEED * deltaTime;
+    const loadChallenge = async () => {
+      try {
+        const response = await fetch(`/api/challenges/${encodeURIComponent(challengeId)}`);
+        if (response.ok) {
+          setChallenge(await response.json());
+        }
+      } catch (error) {
+        console.error("Error loading challenge:", error);
+      }
+    };
+    loadChallenge();
+  }, []);
+
+  // Race the challenger on their course
+  const startChallenge = useCallback(() => {
+    if (!challenge) return;
+    rankedAttemptRef.current = null;
+    startGame({ seed: challenge.seed, mode: 'challenge' });
+  }, [challenge, startGame]);
+
+  // Note when the frame was opened from a shared run link
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
     
-    // Check for collisions with ground or ceiling
-    if (height && newY > height - GROUND_HEIGHT - HELICOPTER_HEIGHT / 2) {
-      // Hit the ground - game over
-      endGame();
-      return;
+    const params = new URLSearchParams(window.location.search);
+    const sharedRunId = params.get('runId') ?? params.get('challenge');
+    if (sharedRunId) {
+      sharedRunIdRef.current = sharedRunId;
+      trackShareEvent(sharedRunId, 'open');
     }
-    
-    if (newY < HELICOPTER_HEIGHT / 2) {
-      // Hit the ceiling - bounce slightly
-      setHeliPosition({
-        ...heliPosition,
-        y: HELICOPTER_HEIGHT / 2
-      });
-      setHeliVelocity(Math.abs(newVelocity) * 0.3); // Bounce with reduced velocity
-      setHeliAcceleration(0);
-      return;
+  }, [trackShareEvent]);
+
+  // The first game after opening a shared link counts as a converted share
+  useEffect(() => {
+    if (status === 'PLAYING' && sharedRunIdRef.current) {
+      trackShareEvent(sharedRunIdRef.current, 'play');
+      sharedRunIdRef.current = null;
     }
+  }, [status, trackShareEvent]);
+
+  // Load today's daily challenge and the viewer's remaining attempts
+  const loadDailyChallenge = useCallback(async () => {
+    try {
+      const fid = frameContext?.user?.fid;
+      const response = await fetch(`/api/daily${fid ? `?fid=${fid}` : ""}`);
+      if (response.ok) {
+        setDailyChallenge(await response.json());
+      }
+    } catch (error) {
+      console.error("Error loading daily challenge:", error);
+    }
+  }, [frameContext]);
+
+  useEffect(() => {
+    loadDailyChallenge();
+  }, [loadDailyChallenge]);
+
+  // Refresh remaining attempts after a daily run
+  useEffect(() => {
+    if (status === 'GAME_OVER' && mode === 'daily') {
+      loadDailyChallenge();
+    }
+  }, [status, mode, loadDailyChallenge]);
+
+  // Start a ranked daily attempt, or a practice run once attempts are used up
+  const startDailyChallenge = useCallback(async () => {
+    const fid = frameContext?.user?.fid;
+    const challengeDate = dailyChallenge?.challengeDate ?? getChallengeDate();
+    rankedAttemptRef.current = null;
     
-    // Check for collisions with obstacles
-    if (checkObstacleCollisions()) {
-      // Hit an obstacle - game over
-      endGame();
-      return;
+    if (fid && await ensureSignedIn(fid)) {
+      try {
+        const response = await fetch("/api/daily", {
+          method: "POST",
+          mode: "same-origin",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ fid }),
+        });
+        const challenge = await response.json();
+        setDailyChallenge(challenge);
+        
+        if (response.ok) {
+          rankedAttemptRef.current = {
+            challengeDate: challenge.challengeDate,
+            attemptToken: challenge.attemptToken,
+          };
+          startGame({ seed: challenge.seed, mode: 'daily' });
+          return;
+        }
+      } catch (error) {
+        console.error("Error starting daily challenge:", error);
+      }
     }
     
-    // Update state
-    setHeliPosition({
-      x: width && newX > width * 0.25 ? width * 0.25 : newX, // Keep helicopter at 1/4 of screen width
-      y: newY
-    });
-    setHeliVelocity(newVelocity);
-    setHeliAcceleration(newAcceleration);
-    setRotationAngle(newRotation);
+    startGame({ seed: getDailySeed(challengeDate), mode: 'daily' });
+  }, [frameContext, dailyChallenge, startGame]);
+
+  // Advance the simulation by one fixed tick with the current input, in place
+  const tick = useCallback((tickDuration: number) => {
+    const current = simulationRef.current;
+    const previous = previousSimulationRef.current;
+    if (status !== 'PLAYING' || !current || !previous || current.status !== 'RUNNING') return;
+    
+    const thrust = thrustingRef.current;
+    if (inputLogRef.current) {
+      recordInput(inputLogRef.current, current.tick, thrust);
+    }
     
-    // Update obstacles
-    updateObstacles(deltaTime);
+    copySimulation(previous, current);
+    const next = advanceSimulation(current, { thrust }, tickDuration);
     
-    // Increment score based on distance traveled
-    if (Math.floor(bgScrollX / 100) !== Math.floor((bgScrollX + BACKGROUND_SCROLL_SPEED * gameSpeed * deltaTime) / 100)) {
-      incrementScore(1); // Keep the parameter since we added optional points
+    // Sparkles over every obstacle cleared this tick. The pool is stepped in
+    // place, so a slot's previous state is at the same index.
+    next.obstacles.forEach((obstacle, i) => {
+      if (obstacle.active && obstacle.passed && !previous.obstacles[i].passed) {
+        const x = obstacle.x + obstacle.width;
+        emitBurst(particlesRef.current, SPARKLES, x, getSafeY(obstacle, x, next.height - GROUND_HEIGHT));
+      }
+    });
+    reportTickEvents(previous, next, recordRunEvent);
+    
+    // Keep the ghost in lockstep; once its run is over it stays where it crashed
+    const ghost = ghostRef.current;
+    if (ghost) {
+      copySimulation(ghost.previous, ghost.state);
+      if (ghost.state.tick < ghost.log.ticks) {
+        advanceSimulation(ghost.state, { thrust: isThrustingAt(ghost.log, ghost.state.tick) }, tickDuration);
+      }
     }
     
-  }, [
-    status, 
-    heliPosition, 
-    heliVelocity, 
-    heliAcceleration, 
-    rotationAngle, 
-    isThrusting, 
-    height, 
-    width, 
-    endGame, 
-    incrementScore, 
-    bgScrollX, 
-    checkObstacleCollisions,
-    updateObstacles,
-    gameSpeed
-  ]);
-
-  // Use game loop for animation with proper delta time
-  useGameLoop((deltaTime) => {
-    // Update background scroll position based on game state
-    if (status === 'PLAYING') {
-      // Update background scroll position with game speed
-      setBgScrollX(prevScrollX => prevScrollX + BACKGROUND_SCROLL_SPEED * gameSpeed * deltaTime / 1000);
+    if (next.status === 'CRASHED') {
+      crashTimeRef.current = performance.now();
+      emitBurst(particlesRef.current, DEBRIS, next.helicopter.x, next.helicopter.y);
+      addCoins(next.coinsCollected);
+      endGame(next.score);
+      setLastRun(inputLogRef.current);
       
-      // Update helicopter physics
-      updateHelicopter(deltaTime / 1000);
-    } else if (status === 'START') {
+      if (inputLogRef.current) {
+        submitRun(inputLogRef.current, next.score);
+        
+        if (mode === 'classic') {
+          recordRun(inputLogRef.current, next.score, getDistance(next));
+        }
+      }
+    }
+  }, [status, mode, endGame, submitRun, recordRun, recordRunEvent, addCoins, particlesRef]);
+
+  // Use a fixed-step game loop so physics is identical at any frame rate
+  useGameLoop((deltaTime, alpha) => {
+    if (status === 'START') {
       // Slow scroll in start screen for visual interest
-      setBgScrollX(prevScrollX => prevScrollX + BACKGROUND_SCROLL_SPEED * 0.2 * deltaTime / 1000);
+      bgScrollXRef.current += BACKGROUND_SCROLL_SPEED * 0.2 * deltaTime;
     }
     
-    // Render the canvas regardless of game state
-    renderCanvas();
-  }, !!(canvas && context));
+    // Particles drift with the world and the exhaust trails while thrusting
+    const particles = particlesRef.current;
+    const simulation = simulationRef.current;
+    const scrollX = simulation && status !== 'START' ? simulation.scrollX : particleScrollXRef.current;
+    updateParticles(particles, deltaTime, scrollX - particleScrollXRef.current);
+    particleScrollXRef.current = scrollX;
+    if (status === 'PLAYING' && simulation && thrustingRef.current) {
+      const { x, y, rotation } = simulation.helicopter;
+      const angle = rotation * Math.PI / 180;
+      updateEmitter(
+        particles,
+        exhaustRef.current,
+        x + EXHAUST_OFFSET_X * Math.cos(angle) - EXHAUST_OFFSET_Y * Math.sin(angle),
+        y + EXHAUST_OFFSET_X * Math.sin(angle) + EXHAUST_OFFSET_Y * Math.cos(angle),
+        deltaTime,
+        angle
+      );
+    }
+    updateParticleBudget(particles, frameStatsRef.current);
+    
+    // Render the canvas regardless of game state, timing how long drawing takes
+    const drawStart = performance.now();
+    renderCanvas(alpha);
+    const drawEnd = performance.now();
+    recordFrame(frameStatsRef.current, drawEnd, drawEnd - drawStart, getObstacleAllocationCount());
+  }, !!(canvas && context), {
+    tickRate: TICK_RATE,
+    onTick: tick
+  });
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
     
     const load = async () => {
+      // Start loading sprites right away; the emoji stands in if they fail
+      const atlasLoaded = loadHelicopterAtlas();
+      
       try {
         if (!sdk || !sdk.context) {
           console.error("Frame SDK not available");
@@ -794,7 +894,7 @@ export default function Frame() {
         }
         
         const ctx = await sdk.context;
-        setContext(ctx);
+        setFrameContext(ctx);
         setAdded(ctx?.client?.added || false);
 
         // If frame isn't already added, prompt user to add it
@@ -812,7 +912,8 @@ export default function Frame() {
           });
         }
 
-        // Signal that the frame is ready
+        // Signal that the frame is ready once the sprites are in
+        setSpriteAtlas(await atlasLoaded);
         if (sdk.actions && sdk.actions.ready) {
           sdk.actions.ready();
         }
@@ -840,29 +941,43 @@ export default function Frame() {
     if (!container) return;
 
     const handleInteraction = (e: MouseEvent | TouchEvent) => {
-      if (status === 'START') {
-        startGame();
-      } else if (status === 'GAME_OVER') {
-        // Check if click is on the Play Again button
-        if (context && canvas && width && height) {
-          const rect = canvas.getBoundingClientRect();
-          const x = e instanceof MouseEvent ? e.clientX : e.touches[0].clientX;
-          const y = e instanceof MouseEvent ? e.clientY : e.touches[0].clientY;
-          
-          // Convert to canvas coordinates
-          const canvasX = x - rect.left;
-          const canvasY = y - rect.top;
-          
-          // Check if click is within button bounds
-          if (
-            canvasX >= width / 2 - 75 &&
-            canvasX <= width / 2 + 75 &&
-            canvasY >= height / 2 + 60 &&
-            canvasY <= height / 2 + 100
-          ) {
-            restartGame();
+      if (status === 'PLAYING' || !canvas) return;
+      
+      const rect = canvas.getBoundingClientRect();
+      const x = e instanceof MouseEvent ? e.clientX : e.touches[0].clientX;
+      const y = e instanceof MouseEvent ? e.clientY : e.touches[0].clientY;
+      
+      // Convert to canvas coordinates and check the screen's buttons
+      const button = findButtonAt(getScreenButtons(), x - rect.left, y - rect.top);
+      
+      switch (button?.id) {
+        case 'PLAY_AGAIN':
+          restartGame();
+          break;
+        case 'SHARE':
+          shareScore();
+          break;
+        case 'REPLAY':
+          setIsReplayOpen(true);
+          break;
+        case 'LEADERBOARD':
+          setIsLeaderboardOpen(true);
+          break;
+        case 'DAILY':
+          startDailyChallenge();
+          break;
+        case 'CHALLENGE':
+          startChallenge();
+          break;
+        case 'SETTINGS':
+          setIsSettingsOpen(true);
+          break;
+        default:
+          // Tap anywhere else on the start screen to play, on the ghost's course when racing it
+          if (status === 'START') {
+            rankedAttemptRef.current = null;
+            startGame(ghostRun ? { seed: ghostRun.seed } : undefined);
           }
-        }
       }
     };
 
@@ -873,7 +988,7 @@ export default function Frame() {
       container.removeEventListener('click', handleInteraction);
       container.removeEventListener('touchstart', handleInteraction);
     };
-  }, [status, startGame, restartGame, context, canvas, width, height]);
+  }, [status, startGame, startDailyChallenge, startChallenge, restartGame, shareScore, getScreenButtons, canvas, ghostRun]);
 
   // Handle pointer down/up for helicopter thrust
   useEffect(() => {
@@ -884,12 +999,12 @@ export default function Frame() {
     
     const handlePointerDown = () => {
       if (status === 'PLAYING') {
-        setIsThrusting(true);
+        thrustingRef.current = true;
       }
     };
     
     const handlePointerUp = () => {
-      setIsThrusting(false);
+      thrustingRef.current = false;
     };
     
     container.addEventListener('mousedown', handlePointerDown);
@@ -918,10 +1033,10 @@ export default function Frame() {
   return (
     <div
       style={{
-        paddingTop: context?.client?.safeAreaInsets?.top ?? 0,
-        paddingBottom: context?.client?.safeAreaInsets?.bottom ?? 0,
-        paddingLeft: context?.client?.safeAreaInsets?.left ?? 0,
-        paddingRight: context?.client?.safeAreaInsets?.right ?? 0,
+        paddingTop: frameContext?.client?.safeAreaInsets?.top ?? 0,
+        paddingBottom: frameContext?.client?.safeAreaInsets?.bottom ?? 0,
+        paddingLeft: frameContext?.client?.safeAreaInsets?.left ?? 0,
+        paddingRight: frameContext?.client?.safeAreaInsets?.right ?? 0,
         width: "100%",
         height: "100%",
         display: "flex",
@@ -930,20 +1045,60 @@ export default function Frame() {
         justifyContent: "center",
       }}
     >
-      <div 
-        ref={gameContainerRef}
-        id="game-container"
+      <div
         style={{
           width: "100%",
           height: "100%",
           maxWidth: "500px",
           maxHeight: "800px",
-          backgroundColor: "#87CEEB", // Sky blue background
           position: "relative",
-          overflow: "hidden",
-          touchAction: "none", // Prevent default touch actions
         }}
-      />
+      >
+        <div 
+          ref={gameContainerRef}
+          id="game-container"
+          style={{
+            width: "100%",
+            height: "100%",
+            backgroundColor: "#87CEEB", // Sky blue background
+            position: "relative",
+            overflow: "hidden",
+            touchAction: "none", // Prevent default touch actions
+          }}
+        />
+        {/* Outside the game container so picking doesn't count as a tap to start */}
+        {status === 'START' && (
+          <div style={{ position: "absolute", top: 60, left: 0, right: 0 }}>
+            <CharacterPicker characterId={characterId} onSelect={selectCharacter} />
+          </div>
+        )}
+      </div>
+      <Toaster />
+      {isLeaderboardOpen && (
+        <Leaderboard
+          viewerFid={frameContext?.user?.fid}
+          initialDifficulty={classicDifficulty}
+          onClose={() => setIsLeaderboardOpen(false)}
+        />
+      )}
+      {isSettingsOpen && (
+        <Settings
+          settings={settings}
+          unlocked={unlocked}
+          coins={coinBalance}
+          purchasedSkins={purchasedSkins}
+          onBuySkin={buySkin}
+          onChange={updateSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+      {isReplayOpen && lastRun && (
+        <ReplayViewer
+          log={lastRun}
+          atlas={spriteAtlas}
+          onClose={() => setIsReplayOpen(false)}
+        />
+      )}
     </div>
   );
 }
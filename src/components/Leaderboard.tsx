@@ -0,0 +1,201 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "~/components/ui/avatar";
+import { Button } from "~/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { DAILY_DIFFICULTY_ID } from "~/lib/game/daily";
+import {
+  DIFFICULTY_IDS,
+  DIFFICULTY_PROFILES,
+  type DifficultyId,
+} from "~/lib/game/difficulty";
+import type { LeaderboardScope } from "~/lib/kv";
+import { cn } from "~/lib/utils";
+
+type LeaderboardRow = {
+  rank: number;
+  fid: number;
+  score: number;
+  username: string | null;
+  displayName: string | null;
+  pfpUrl: string | null;
+};
+
+type LeaderboardPage = {
+  entries: LeaderboardRow[];
+  nextCursor: string | null;
+  viewer: { fid: number; rank: number; score: number } | null;
+};
+
+// Friends isn't a stored board: it's the all-time board narrowed to the
+// viewer and the people they follow
+type BoardScope = LeaderboardScope | "friends";
+
+type LeaderboardProps = {
+  viewerFid?: number;
+  // Difficulty shown first; each one is ranked separately
+  initialDifficulty: DifficultyId;
+  onClose: () => void;
+};
+
+const SCOPE_LABELS: Record<BoardScope, string> = {
+  global: "All time",
+  weekly: "This week",
+  daily: "Today",
+  challenge: "Daily",
+  friends: "Friends",
+};
+
+// Full-screen leaderboard with all-time, weekly, today and daily challenge
+// boards, plus the viewer's friends when there is a viewer
+export function Leaderboard({
+  viewerFid,
+  initialDifficulty,
+  onClose,
+}: LeaderboardProps) {
+  const [scope, setScope] = useState<BoardScope>("global");
+  const scopes = (Object.keys(SCOPE_LABELS) as BoardScope[]).filter(
+    (key) => key !== "friends" || viewerFid
+  );
+  const [selectedDifficulty, setSelectedDifficulty] = useState(initialDifficulty);
+  // The daily challenge is only ever flown on one difficulty
+  const difficulty =
+    scope === "challenge" ? DAILY_DIFFICULTY_ID : selectedDifficulty;
+  const [rows, setRows] = useState<LeaderboardRow[]>([]);
+  const [viewer, setViewer] = useState<LeaderboardPage["viewer"]>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (cursor: string | null) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ scope, difficulty });
+      if (cursor) params.set("cursor", cursor);
+      if (viewerFid) params.set("fid", viewerFid.toString());
+
+      const response = await fetch(`/api/leaderboard?${params}`);
+      if (!response.ok) {
+        setError("Couldn't load the leaderboard");
+        return;
+      }
+
+      const page: LeaderboardPage = await response.json();
+      setRows((prev) => (cursor ? [...prev, ...page.entries] : page.entries));
+      setViewer(page.viewer);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading leaderboard:", error);
+      setError("Couldn't load the leaderboard");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [scope, difficulty, viewerFid]);
+
+  // Reload from the top whenever the board changes
+  useEffect(() => {
+    setRows([]);
+    loadPage(null);
+  }, [loadPage]);
+
+  const viewerOnPage = rows.some((row) => row.fid === viewerFid);
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-neutral-950 text-white">
+      <div className="flex items-center justify-between p-4">
+        <h2 className="text-xl font-semibold">Leaderboard</h2>
+        <Button size="sm" variant="secondary" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+
+      <Tabs
+        value={scope}
+        onValueChange={(value) => setScope(value as BoardScope)}
+        className="px-4"
+      >
+        <TabsList className="w-full">
+          {scopes.map((key) => (
+            <TabsTrigger key={key} value={key} className="flex-1">
+              {SCOPE_LABELS[key]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {scope !== "challenge" && (
+        <div className="flex gap-1 px-4 pt-2">
+          {DIFFICULTY_IDS.map((id) => (
+            <Button
+              key={id}
+              size="sm"
+              variant={difficulty === id ? "default" : "secondary"}
+              className="flex-1"
+              onClick={() => setSelectedDifficulty(id)}
+            >
+              {DIFFICULTY_PROFILES[id].name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <ol className="flex-1 overflow-y-auto p-4">
+        {rows.map((row) => (
+          <li
+            key={row.fid}
+            className={cn(
+              "flex items-center gap-3 rounded-md px-2 py-2",
+              row.fid === viewerFid && "bg-yellow-500/20 font-semibold"
+            )}
+          >
+            <span className="w-8 text-right tabular-nums">{row.rank}</span>
+            <Avatar className="h-8 w-8">
+              {row.pfpUrl && <AvatarImage src={row.pfpUrl} alt="" />}
+              <AvatarFallback className="text-neutral-900">
+                {(row.username ?? "?").slice(0, 1).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <span className="flex-1 truncate">
+              {row.username ? `@${row.username}` : `fid:${row.fid}`}
+            </span>
+            <span className="tabular-nums">{row.score}</span>
+          </li>
+        ))}
+
+        {!isLoading && !error && rows.length === 0 && (
+          <li className="py-8 text-center text-neutral-400">
+            {scope === "friends"
+              ? "No scores from you or anyone you follow yet."
+              : "No scores yet. Be the first!"}
+          </li>
+        )}
+        {error && <li className="py-8 text-center text-red-400">{error}</li>}
+
+        {nextCursor && (
+          <li className="flex justify-center py-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={isLoading}
+              onClick={() => loadPage(nextCursor)}
+            >
+              Load more
+            </Button>
+          </li>
+        )}
+      </ol>
+
+      {/* Keep the viewer's own rank visible when it isn't on screen */}
+      {viewer && !viewerOnPage && (
+        <div className="flex items-center gap-3 border-t border-neutral-800 bg-yellow-500/20 px-6 py-3 font-semibold">
+          <span className="w-8 text-right tabular-nums">{viewer.rank}</span>
+          <span className="flex-1">You</span>
+          <span className="tabular-nums">{viewer.score}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Slider } from "~/components/ui/slider";
+import { useCanvas } from "~/hooks/useCanvas";
+import { useGameLoop } from "~/hooks/useGameLoop";
+import { TICK_RATE } from "~/lib/game/constants";
+import { drawBackground } from "~/lib/game/background";
+import { getCharacter } from "~/lib/game/characters";
+import {
+  drawCoins,
+  drawHelicopter,
+  drawObstacles,
+  drawPowerUps,
+  drawPowerUpTimers,
+  drawShield,
+} from "~/lib/game/render";
+import {
+  advanceReplay,
+  createReplayCursor,
+  isThrustingAt,
+  seekReplay,
+  type InputLog,
+} from "~/lib/game/replay";
+import { getHelicopterScale, interpolateSimulation } from "~/lib/game/simulation";
+import type { HelicopterAtlas } from "~/lib/game/sprites";
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2];
+
+type ReplayViewerProps = {
+  log: InputLog;
+  atlas: HelicopterAtlas | null;
+  onClose: () => void;
+};
+
+// Re-simulates a recorded run and renders it with scrubbing, pause and speed controls
+export function ReplayViewer({ log, atlas, onClose }: ReplayViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { canvas, context, width, height } = useCanvas(containerRef);
+  const cursor = useMemo(() => createReplayCursor(log), [log]);
+
+  const [isPaused, setIsPaused] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [currentTick, setCurrentTick] = useState(0);
+
+  // Advance one recorded tick, pausing at the end of the run
+  const tick = useCallback(() => {
+    if (!advanceReplay(cursor)) {
+      setIsPaused(true);
+    }
+  }, [cursor]);
+
+  const togglePaused = useCallback(() => {
+    // Start over when play is pressed at the end of the run
+    if (isPaused && cursor.state.tick >= log.ticks) {
+      seekReplay(cursor, 0);
+    }
+    setIsPaused(!isPaused);
+  }, [cursor, isPaused, log.ticks]);
+
+  const seek = useCallback((value: number[]) => {
+    seekReplay(cursor, value[0]);
+    setCurrentTick(cursor.state.tick);
+  }, [cursor]);
+
+  useGameLoop((_deltaTime, alpha) => {
+    if (!context || !width || !height) return;
+
+    const state = interpolateSimulation(cursor.previous, cursor.state, alpha);
+
+    // Fit the recorded world into this canvas
+    const scale = Math.min(width / log.width, height / log.height);
+    context.clearRect(0, 0, width, height);
+    context.save();
+    context.translate((width - log.width * scale) / 2, (height - log.height * scale) / 2);
+    context.scale(scale, scale);
+
+    drawBackground(context, log.width, log.height, state.scrollX);
+    drawObstacles(context, state.obstacles, false);
+    drawCoins(context, state.coins);
+    drawPowerUps(context, state.powerUps);
+
+    // Drawn like the game draws it, so shielded and shrunk stretches look the same
+    const character = getCharacter(log.character);
+    drawHelicopter(context, state.helicopter.x, state.helicopter.y, state.helicopter.rotation, {
+      character,
+      thrusting: isThrustingAt(log, state.tick),
+      debug: false,
+      atlas,
+      scale: getHelicopterScale(state),
+      // Animate on the run's clock so scrubbing and playback speed apply
+      time: state.tick / TICK_RATE
+    });
+    drawShield(context, state, character);
+
+    context.fillStyle = 'white';
+    context.font = '24px Arial';
+    context.textAlign = 'right';
+    context.textBaseline = 'top';
+    context.fillText(`Score: ${state.score}`, log.width - 20, 20);
+    drawPowerUpTimers(context, state.effects, log.width - 20, 60);
+    context.restore();
+
+    if (cursor.state.tick !== currentTick) {
+      setCurrentTick(cursor.state.tick);
+    }
+  }, !!(canvas && context), {
+    tickRate: isPaused ? undefined : TICK_RATE * speed,
+    onTick: tick
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black">
+      <div ref={containerRef} className="relative flex-1 overflow-hidden" />
+      <div className="flex flex-col gap-3 p-4 text-white">
+        <Slider
+          value={[currentTick]}
+          max={log.ticks}
+          step={1}
+          onValueChange={seek}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <Button size="sm" variant="secondary" onClick={togglePaused}>
+            {isPaused ? "Play" : "Pause"}
+          </Button>
+          <div className="flex gap-1">
+            {PLAYBACK_SPEEDS.map((playbackSpeed) => (
+              <Button
+                key={playbackSpeed}
+                size="sm"
+                variant={playbackSpeed === speed ? "default" : "ghost"}
+                onClick={() => setSpeed(playbackSpeed)}
+              >
+                {playbackSpeed}x
+              </Button>
+            ))}
+          </div>
+          <span className="text-sm tabular-nums">
+            {(currentTick / TICK_RATE).toFixed(1)}s / {(log.ticks / TICK_RATE).toFixed(1)}s
+          </span>
+          <Button size="sm" variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import type { Settings as GameSettings } from "~/hooks/useSettings";
+import {
+  ACHIEVEMENTS,
+  getUnlockedCosmetics,
+  type AchievementId,
+} from "~/lib/game/achievements";
+import {
+  getCosmeticName,
+  SKIN_IDS,
+  SKINS,
+  TRAIL_IDS,
+  TRAILS,
+  type SkinId,
+} from "~/lib/game/cosmetics";
+import { DIFFICULTY_IDS, DIFFICULTY_PROFILES } from "~/lib/game/difficulty";
+import { cn } from "~/lib/utils";
+
+type SettingsProps = {
+  settings: GameSettings;
+  unlocked: AchievementId[];
+  coins: number;
+  purchasedSkins: SkinId[];
+  onBuySkin: (id: SkinId) => Promise<boolean>;
+  onChange: (changes: Partial<GameSettings>) => void;
+  onClose: () => void;
+};
+
+// Full-screen settings panel opened from the start screen
+export function Settings({
+  settings,
+  unlocked,
+  coins,
+  purchasedSkins,
+  onBuySkin,
+  onChange,
+  onClose,
+}: SettingsProps) {
+  const { skins, trails } = getUnlockedCosmetics(unlocked, purchasedSkins);
+
+  // Equip a skin as soon as it is bought
+  const buySkin = async (id: SkinId) => {
+    if (await onBuySkin(id)) {
+      onChange({ skin: id });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-neutral-950 text-white">
+      <div className="flex items-center justify-between p-4">
+        <h2 className="text-xl font-semibold">Settings</h2>
+        <Button size="sm" variant="secondary" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-4 overflow-y-auto p-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="ghost-racing" className="flex flex-col gap-1">
+            <span>Ghost racing</span>
+            <span className="text-sm font-normal text-neutral-400">
+              Race a ghost of your best run on the same course
+            </span>
+          </Label>
+          <Switch
+            id="ghost-racing"
+            checked={settings.ghostRacing}
+            onCheckedChange={(ghostRacing) => onChange({ ghostRacing })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="frame-stats" className="flex flex-col gap-1">
+            <span>Performance overlay</span>
+            <span className="text-sm font-normal text-neutral-400">
+              Show frame rate and frame times
+            </span>
+          </Label>
+          <Switch
+            id="frame-stats"
+            checked={settings.showFrameStats}
+            onCheckedChange={(showFrameStats) => onChange({ showFrameStats })}
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <span className="flex flex-col gap-1">
+            <span>Difficulty</span>
+            <span className="text-sm text-neutral-400">
+              Each difficulty has its own leaderboards and ghost
+            </span>
+          </span>
+          <div className="flex flex-wrap gap-1">
+            {DIFFICULTY_IDS.map((id) => (
+              <Button
+                key={id}
+                size="sm"
+                variant={settings.difficulty === id ? "default" : "secondary"}
+                onClick={() => onChange({ difficulty: id })}
+              >
+                {DIFFICULTY_PROFILES[id].name}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Locked cosmetics stay visible so there is something to aim for */}
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span>Skin</span>
+            <span className="text-sm text-neutral-400">🪙 {coins}</span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {SKIN_IDS.map((id) => {
+              const { name, price } = SKINS[id];
+              if (skins.includes(id)) {
+                return (
+                  <Button
+                    key={id}
+                    size="sm"
+                    variant={settings.skin === id ? "default" : "secondary"}
+                    onClick={() => onChange({ skin: id })}
+                  >
+                    {name}
+                  </Button>
+                );
+              }
+
+              // Locked skins with a price can be bought instead of earned
+              return (
+                <Button
+                  key={id}
+                  size="sm"
+                  variant="secondary"
+                  disabled={price === undefined || coins < price}
+                  onClick={() => buySkin(id)}
+                >
+                  {price === undefined ? name : `${name} · 🪙 ${price}`}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <span>Trail</span>
+          <div className="flex flex-wrap gap-1">
+            {TRAIL_IDS.map((id) => (
+              <Button
+                key={id}
+                size="sm"
+                variant={settings.trail === id ? "default" : "secondary"}
+                disabled={!trails.includes(id)}
+                onClick={() => onChange({ trail: id })}
+              >
+                {TRAILS[id].name}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <span>Achievements</span>
+          <ul className="flex flex-col gap-2">
+            {ACHIEVEMENTS.map((achievement) => {
+              const earned = unlocked.includes(achievement.id);
+              return (
+                <li
+                  key={achievement.id}
+                  className={cn(
+                    "flex flex-col rounded-md px-3 py-2",
+                    earned ? "bg-yellow-500/20" : "bg-neutral-900 text-neutral-400"
+                  )}
+                >
+                  <span className="font-semibold">
+                    {earned ? "🏆 " : "🔒 "}
+                    {achievement.name}
+                  </span>
+                  <span className="text-sm">
+                    {achievement.description} · unlocks {getCosmeticName(achievement.reward)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useCallback, useRef } from 'react';
+import { toast } from '~/hooks/use-toast';
+import { useLazyRef } from '~/hooks/useLazyRef';
+import { useLocalStorage, type LocalStorageOptions } from '~/hooks/useLocalStorage';
+import {
+  ACHIEVEMENTS,
+  applyRunEvent,
+  createAchievementTracker,
+  EMPTY_STATS,
+  getEarnedAchievements,
+  type AchievementRecord,
+  type RunEvent,
+} from '~/lib/game/achievements';
+import { getCosmeticName } from '~/lib/game/cosmetics';
+
+const ACHIEVEMENTS_STORAGE_KEY = 'flappyHelicopter_achievements';
+
+const EMPTY_RECORD: AchievementRecord = { stats: EMPTY_STATS, unlocked: [] };
+
+// Progress is kept per Farcaster user, like the character choice
+const getStorageKey = (fid?: number) => `${ACHIEVEMENTS_STORAGE_KEY}_${fid ?? 'guest'}`;
+
+const ACHIEVEMENTS_STORAGE_OPTIONS: LocalStorageOptions<AchievementRecord> = {
+  // Fill in stats added since the record was saved
+  deserializer: stored => {
+    const parsed: AchievementRecord = JSON.parse(stored);
+    return { stats: { ...EMPTY_STATS, ...parsed.stats }, unlocked: parsed.unlocked ?? [] };
+  }
+};
+
+async function fetchRecord(fid: number): Promise<AchievementRecord | null> {
+  try {
+    const response = await fetch(`/api/achievements?fid=${fid}`);
+    if (!response.ok) return null;
+
+    const { stats, unlocked }: AchievementRecord = await response.json();
+    return { stats, unlocked };
+  } catch (error) {
+    console.error('Error loading achievements:', error);
+    return null;
+  }
+}
+
+// Achievements and lifetime stats, stored locally and, for signed-in users,
+// on the server. Feed it run events with `recordRunEvent` for instant progress
+// and toasts; the server tracks verified runs itself, so its record replaces
+// the local one whenever it is known.
+export function useAchievements(fid?: number) {
+  const [record, setRecord] = useLocalStorage(getStorageKey(fid), EMPTY_RECORD, ACHIEVEMENTS_STORAGE_OPTIONS);
+  const recordRef = useRef(record);
+  recordRef.current = record;
+  const trackerRef = useLazyRef(() => createAchievementTracker(record.stats));
+
+  // Track runs on top of whichever record is current, e.g. after the server's arrives
+  useEffect(() => {
+    trackerRef.current = createAchievementTracker(record.stats);
+  }, [trackerRef, record]);
+
+  // Load the server's record
+  useEffect(() => {
+    if (!fid) return;
+    let cancelled = false;
+    fetchRecord(fid).then(remote => {
+      if (remote && !cancelled) setRecord(remote);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fid, setRecord]);
+
+  // Stable, so the game loop can call it without re-subscribing
+  const recordRunEvent = useCallback((event: RunEvent) => {
+    const tracker = trackerRef.current;
+    applyRunEvent(tracker, event);
+    if (event.type !== 'runEnded') return;
+
+    const previous = recordRef.current;
+    const unlocked = getEarnedAchievements(tracker.stats);
+    const next: AchievementRecord = { stats: { ...tracker.stats }, unlocked };
+    recordRef.current = next;
+    setRecord(next);
+
+    const earned = ACHIEVEMENTS.filter(achievement =>
+      unlocked.includes(achievement.id) && !previous.unlocked.includes(achievement.id)
+    );
+    if (earned.length > 0) {
+      // Only one toast shows at a time, so announce everything earned together
+      toast({
+        title: earned.length === 1 ? `Achievement unlocked: ${earned[0].name}` : `${earned.length} achievements unlocked`,
+        description: earned
+          .map(achievement => `${achievement.description}: ${getCosmeticName(achievement.reward)}`)
+          .join(' · ')
+      });
+    }
+  }, [trackerRef, setRecord]);
+
+  return { stats: record.stats, unlocked: record.unlocked, recordRunEvent, setServerRecord: setRecord };
+}
@@ -0,0 +1,72 @@
+import { useCallback } from 'react';
+import { useLocalStorage, type LocalStorageOptions } from '~/hooks/useLocalStorage';
+import { PHYSICS_VERSION } from '~/lib/game/constants';
+import { getDifficultyProfile, type DifficultyId } from '~/lib/game/difficulty';
+import { decodeInputLog, encodeInputLog, type InputLog } from '~/lib/game/replay';
+
+const BEST_RUN_STORAGE_KEY = 'flappyHelicopter_bestRun';
+
+// Each difficulty profile has its own best run, since their courses differ
+const getStorageKey = (difficulty: DifficultyId) => `${BEST_RUN_STORAGE_KEY}_${difficulty}`;
+
+type StoredBestRun = {
+  score: number;
+  distance: number; // meters flown before crashing
+  run: string; // encoded input log
+};
+
+type BestRun = {
+  log: InputLog;
+  score: number;
+  distance: number;
+};
+
+const BEST_RUN_STORAGE_OPTIONS: LocalStorageOptions<BestRun | null> = {
+  serializer: bestRun => {
+    const stored: StoredBestRun | null = bestRun && {
+      score: bestRun.score,
+      distance: bestRun.distance,
+      run: encodeInputLog(bestRun.log)
+    };
+    return JSON.stringify(stored);
+  },
+  deserializer: value => {
+    const stored: StoredBestRun | null = JSON.parse(value);
+    const log = stored && decodeInputLog(stored.run);
+
+    // Runs from an older engine or older tuning would not replay the same way
+    if (
+      !stored ||
+      !log ||
+      log.version !== PHYSICS_VERSION ||
+      log.difficultyVersion !== getDifficultyProfile(log.difficulty).version ||
+      typeof stored.distance !== 'number'
+    ) {
+      return null;
+    }
+    return { log, score: stored.score, distance: stored.distance };
+  }
+};
+
+// Input log of the player's best run at a difficulty on this device, raced as a ghost
+export function useBestRun(difficulty: DifficultyId) {
+  const [best, setBest] = useLocalStorage<BestRun | null>(
+    getStorageKey(difficulty),
+    null,
+    BEST_RUN_STORAGE_OPTIONS
+  );
+
+  // Keep a finished run if it beats the stored one
+  const recordRun = useCallback((log: InputLog, score: number, distance: number) => {
+    if (log.difficulty !== difficulty) return;
+
+    setBest(prev => (prev && score <= prev.score ? prev : { log, score, distance }));
+  }, [difficulty, setBest]);
+
+  return {
+    bestRun: best?.log ?? null,
+    bestRunScore: best?.score ?? 0,
+    bestRunDistance: best?.distance ?? 0,
+    recordRun
+  };
+}
@@ -1,75 +1,131 @@
 import { useRef, useEffect, useState } from 'react';
 
-type CanvasContextType = {
+export type CanvasLayer = {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+};
+
+type CanvasContextType<Layer extends string> = {
+  // Topmost layer, for single-canvas users and hit testing
   canvas: HTMLCanvasElement | null;
   context: CanvasRenderingContext2D | null;
-  width: number;
-  height: number;
+  // Every layer by name; null until the canvases exist
+  layers: Record<Layer, CanvasLayer> | null;
+  width: number; // CSS pixels
+  height: number; // CSS pixels
+  pixelRatio: number;
+  // Bumped on every resize, when all layers are cleared
+  resizeCount: number;
 };
 
-export function useCanvas(containerRef: React.RefObject<HTMLDivElement>): CanvasContextType {
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const [context, setContext] = useState<CanvasRenderingContext2D | null>(null);
-  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+type DefaultLayer = 'main';
+
+const DEFAULT_LAYERS: readonly DefaultLayer[] = ['main'];
 
-  // Create and initialize the canvas
+/**
+ * Stacked canvases filling the container, bottom layer first.
+ *
+ * Each layer's backing store is scaled by devicePixelRatio and its context is
+ * pre-transformed, so callers draw in CSS pixels and stay sharp on phones.
+ * `layerNames` must keep the same contents between renders.
+ */
+export function useCanvas(
+  containerRef: React.RefObject<HTMLDivElement>
+): CanvasContextType<DefaultLayer>;
+export function useCanvas<Layer extends string>(
+  containerRef: React.RefObject<HTMLDivElement>,
+  layerNames: readonly Layer[]
+): CanvasContextType<Layer>;
+export function useCanvas(
+  containerRef: React.RefObject<HTMLDivElement>,
+  layerNames: readonly string[] = DEFAULT_LAYERS
+): CanvasContextType<string> {
+  const [layers, setLayers] = useState<Record<string, CanvasLayer> | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0, pixelRatio: 1, resizeCount: 0 });
+  const layersKey = layerNames.join(',');
+  const layerNamesRef = useRef(layerNames);
+  layerNamesRef.current = layerNames;
+
+  // Create the layers and keep them sized to the container
   useEffect(() => {
-    if (!containerRef.current) return;
+    const container = containerRef.current;
+    if (!container) return;
 
-    // Create canvas if it doesn't exist
-    if (!canvasRef.current) {
+    const created: Record<string, CanvasLayer> = {};
+    layerNamesRef.current.forEach((name, index) => {
       const canvas = document.createElement('canvas');
       canvas.style.position = 'absolute';
       canvas.style.top = '0';
       canvas.style.left = '0';
       canvas.style.width = '100%';
       canvas.style.height = '100%';
-      
-      containerRef.current.appendChild(canvas);
-      canvasRef.current = canvas;
-      
-      // Get the 2D context
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        setContext(ctx);
-      }
-    }
+      canvas.style.zIndex = index.toString();
+      canvas.dataset.layer = name;
 
-    // Function to resize canvas
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      container.appendChild(canvas);
+      created[name] = { canvas, context };
+    });
+    setLayers(created);
+
+    // Match the backing stores to the container's size and pixel ratio
     const resizeCanvas = () => {
-      if (!containerRef.current || !canvasRef.current) return;
-      
-      const { width, height } = containerRef.current.getBoundingClientRect();
-      
-      // Set canvas dimensions to match container
-      canvasRef.current.width = width;
-      canvasRef.current.height = height;
-      
-      // Update dimensions state
-      setDimensions({ width, height });
+      const { width, height } = container.getBoundingClientRect();
+      const pixelRatio = window.devicePixelRatio || 1;
+
+      for (const { canvas, context } of Object.values<CanvasLayer>(created)) {
+        canvas.width = Math.round(width * pixelRatio);
+        canvas.height = Math.round(height * pixelRatio);
+        // Resizing resets the context, so reapply the scale
+        context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      }
+
+      setSize(prev => ({ width, height, pixelRatio, resizeCount: prev.resizeCount + 1 }));
     };
 
-    // Initial resize
     resizeCanvas();
-    
-    // Add resize listener
-    window.addEventListener('resize', resizeCanvas);
-    
+
+    // Container size changes, including orientation changes and layout shifts
+    const resizeObserver = new ResizeObserver(resizeCanvas);
+    resizeObserver.observe(container);
+
+    // Pixel ratio changes, e.g. zooming or moving to another screen
+    let pixelRatioQuery: MediaQueryList | null = null;
+    const watchPixelRatio = () => {
+      pixelRatioQuery?.removeEventListener('change', handlePixelRatioChange);
+      pixelRatioQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+      pixelRatioQuery.addEventListener('change', handlePixelRatioChange);
+    };
+    const handlePixelRatioChange = () => {
+      resizeCanvas();
+      watchPixelRatio();
+    };
+    watchPixelRatio();
+
     // Cleanup
     return () => {
-      window.removeEventListener('resize', resizeCanvas);
-      
-      // Remove canvas from DOM if component unmounts
-      if (canvasRef.current && containerRef.current) {
-        containerRef.current.removeChild(canvasRef.current);
+      resizeObserver.disconnect();
+      pixelRatioQuery?.removeEventListener('change', handlePixelRatioChange);
+
+      // Remove the canvases from the DOM if the component unmounts
+      for (const { canvas } of Object.values<CanvasLayer>(created)) {
+        canvas.remove();
       }
+      setLayers(null);
     };
-  }, [containerRef]);
+  }, [containerRef, layersKey]);
+
+  const top = layers ? layers[layerNames[layerNames.length - 1]] : null;
 
   return {
-    canvas: canvasRef.current,
-    context,
-    width: dimensions.width,
-    height: dimensions.height
+    canvas: top?.canvas ?? null,
+    context: top?.context ?? null,
+    layers,
+    width: size.width,
+    height: size.height,
+    pixelRatio: size.pixelRatio,
+    resizeCount: size.resizeCount
   };
 }
@@ -0,0 +1,24 @@
+import { useLocalStorage, type LocalStorageOptions } from '~/hooks/useLocalStorage';
+import { DEFAULT_CHARACTER_ID, isCharacterId, type CharacterId } from '~/lib/game/characters';
+
+const CHARACTER_STORAGE_KEY = 'flappyHelicopter_character';
+
+// Choices are kept per Farcaster user, so people sharing a device keep their own
+const getStorageKey = (fid?: number) => `${CHARACTER_STORAGE_KEY}_${fid ?? 'guest'}`;
+
+// Stored as the bare id rather than JSON, and ids of removed characters are ignored
+const CHARACTER_STORAGE_OPTIONS: LocalStorageOptions<CharacterId> = {
+  serializer: id => id,
+  deserializer: stored => (isCharacterId(stored) ? stored : DEFAULT_CHARACTER_ID)
+};
+
+// The player's chosen character, persisted in localStorage per user
+export function useCharacter(fid?: number) {
+  const [characterId, selectCharacter] = useLocalStorage(
+    getStorageKey(fid),
+    DEFAULT_CHARACTER_ID,
+    CHARACTER_STORAGE_OPTIONS
+  );
+
+  return { characterId, selectCharacter };
+}
@@ -0,0 +1,97 @@
+import { useEffect, useCallback, useRef } from 'react';
+import { useLocalStorage, type LocalStorageOptions } from '~/hooks/useLocalStorage';
+import { EMPTY_WALLET, SKINS, type CoinWallet, type SkinId } from '~/lib/game/cosmetics';
+import { ensureSignedIn } from '~/lib/signIn';
+
+const COINS_STORAGE_KEY = 'flappyHelicopter_coins';
+
+// Wallets are kept per Farcaster user, like the character choice
+const getStorageKey = (fid?: number) => `${COINS_STORAGE_KEY}_${fid ?? 'guest'}`;
+
+const COINS_STORAGE_OPTIONS: LocalStorageOptions<CoinWallet> = {
+  deserializer: stored => ({ ...EMPTY_WALLET, ...JSON.parse(stored) })
+};
+
+async function fetchWallet(fid: number): Promise<CoinWallet | null> {
+  try {
+    const response = await fetch(`/api/coins?fid=${fid}`);
+    if (!response.ok) return null;
+
+    const { balance, skins }: CoinWallet = await response.json();
+    return { balance, skins };
+  } catch (error) {
+    console.error('Error loading coins:', error);
+    return null;
+  }
+}
+
+// Lifetime coin balance and skins bought with it, stored locally and, for
+// signed-in users, on the server. The server credits coins from verified runs,
+// so its balance replaces the local one whenever it is known.
+export function useCoins(fid?: number) {
+  const [wallet, setWallet] = useLocalStorage(getStorageKey(fid), EMPTY_WALLET, COINS_STORAGE_OPTIONS);
+  const walletRef = useRef(wallet);
+  walletRef.current = wallet;
+  const fidRef = useRef(fid);
+  fidRef.current = fid;
+
+  // Load the server's wallet
+  useEffect(() => {
+    if (!fid) return;
+    let cancelled = false;
+    fetchWallet(fid).then(remote => {
+      if (remote && !cancelled) setWallet(remote);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fid, setWallet]);
+
+  // Add a finished run's coins straight away; signed-in users get the
+  // server's balance back once the run is verified
+  const addCoins = useCallback((coins: number) => {
+    if (coins <= 0) return;
+    setWallet(current => ({ ...current, balance: current.balance + coins }));
+  }, [setWallet]);
+
+  const setBalance = useCallback((balance: number) => {
+    setWallet(current => ({ ...current, balance }));
+  }, [setWallet]);
+
+  // Returns whether the skin was bought
+  const buySkin = useCallback(async (skin: SkinId): Promise<boolean> => {
+    const { price } = SKINS[skin];
+    const current = walletRef.current;
+    if (price === undefined || current.skins.includes(skin) || current.balance < price) return false;
+
+    const userFid = fidRef.current;
+    if (!userFid) {
+      setWallet({ balance: current.balance - price, skins: [...current.skins, skin] });
+      return true;
+    }
+
+    if (!(await ensureSignedIn(userFid))) return false;
+
+    try {
+      const response = await fetch('/api/coins', {
+        method: 'POST',
+        mode: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fid: userFid, skin })
+      });
+      if (!response.ok) {
+        console.error('Purchase rejected:', await response.text());
+        return false;
+      }
+
+      const { balance, skins }: CoinWallet = await response.json();
+      setWallet({ balance, skins });
+      return true;
+    } catch (error) {
+      console.error('Error buying skin:', error);
+      return false;
+    }
+  }, [setWallet]);
+
+  return { balance: wallet.balance, purchasedSkins: wallet.skins, addCoins, setBalance, buySkin };
+}
@@ -1,19 +1,80 @@
 import { useRef, useEffect, useCallback } from 'react';
 
-type GameLoopCallback = (deltaTime: number) => void;
+// Called once per animation frame. `alpha` is how far (0-1) the frame is
+// between the last two fixed ticks, for interpolating rendered positions.
+// Without a fixed step it is always 1.
+type GameLoopCallback = (deltaTime: number, alpha: number) => void;
 
-export function useGameLoop(callback: GameLoopCallback, isActive: boolean = true) {
+type GameLoopOptions = {
+  // Fixed-step mode: call `onTick` this many times per second of real time
+  tickRate?: number;
+  onTick?: (tickDuration: number) => void;
+  // Drop accumulated time beyond this many ticks instead of catching up
+  maxCatchUpTicks?: number;
+  // Stop the loop while the page is hidden
+  pauseWhenHidden?: boolean;
+};
+
+const DEFAULT_MAX_CATCH_UP_TICKS = 12;
+const MAX_FRAME_TIME = 0.25; // seconds, clamps the delta after long stalls
+
+export function useGameLoop(
+  callback: GameLoopCallback,
+  isActive: boolean = true,
+  options: GameLoopOptions = {}
+) {
   const requestRef = useRef<number>();
   const previousTimeRef = useRef<number>();
-  
+  const accumulatorRef = useRef(0);
+
+  // Keep the latest callbacks in refs so re-renders don't restart the loop
+  const callbackRef = useRef(callback);
+  const optionsRef = useRef(options);
+  callbackRef.current = callback;
+  optionsRef.current = options;
+
   const animate = useCallback((time: number) => {
     if (previousTimeRef.current !== undefined) {
-      const deltaTime = (time - previousTimeRef.current) / 1000; // Convert to seconds
-      callback(deltaTime);
+      const deltaTime = Math.min((time - previousTimeRef.current) / 1000, MAX_FRAME_TIME); // Convert to seconds
+      const { tickRate, onTick, maxCatchUpTicks = DEFAULT_MAX_CATCH_UP_TICKS } = optionsRef.current;
+
+      if (tickRate && onTick) {
+        const tickDuration = 1 / tickRate;
+        accumulatorRef.current += deltaTime;
+
+        // Clamp how far behind we're allowed to fall
+        if (accumulatorRef.current > tickDuration * maxCatchUpTicks) {
+          accumulatorRef.current = tickDuration * maxCatchUpTicks;
+        }
+
+        while (accumulatorRef.current >= tickDuration) {
+          onTick(tickDuration);
+          accumulatorRef.current -= tickDuration;
+        }
+
+        callbackRef.current(deltaTime, accumulatorRef.current / tickDuration);
+      } else {
+        callbackRef.current(deltaTime, 1);
+      }
     }
     previousTimeRef.current = time;
     requestRef.current = requestAnimationFrame(animate);
-  }, [callback]);
+  }, []);
+
+  const stop = useCallback(() => {
+    if (requestRef.current) {
+      cancelAnimationFrame(requestRef.current);
+      requestRef.current = undefined;
+    }
+  }, []);
+
+  const start = useCallback(() => {
+    if (!requestRef.current) {
+      previousTimeRef.current = performance.now();
+      accumulatorRef.current = 0;
+      requestRef.current = requestAnimationFrame(animate);
+    }
+  }, [animate]);
 
   useEffect(() => {
     if (isActive) {
@@ -21,23 +82,28 @@ export function useGameLoop(callback: GameLoopCallback, isActive: boolean = true
       return () => {
         if (requestRef.current) {
           cancelAnimationFrame(requestRef.current);
+          requestRef.current = undefined;
         }
       };
     }
   }, [isActive, animate]);
 
-  return {
-    stop: useCallback(() => {
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current);
-        requestRef.current = undefined;
-      }
-    }, []),
-    start: useCallback(() => {
-      if (!requestRef.current) {
-        previousTimeRef.current = performance.now();
-        requestRef.current = requestAnimationFrame(animate);
+  // Pause while the tab is hidden so a stall doesn't turn into a burst of ticks
+  const pauseWhenHidden = options.pauseWhenHidden ?? true;
+  useEffect(() => {
+    if (typeof document === 'undefined' || !isActive || !pauseWhenHidden) return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        stop();
+      } else {
+        start();
       }
-    }, [animate]),
-  };
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [isActive, pauseWhenHidden, start, stop]);
+
+  return { stop, start };
 }
@@ -1,6 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { createSeed } from '~/lib/game/random';
 
 export type GameStatus = 'START' | 'PLAYING' | 'GAME_OVER';
+export type GameMode = 'classic' | 'daily' | 'challenge';
+
+type StartGameOptions = {
+  seed?: number;
+  mode?: GameMode;
+};
 
 interface GameState {
   status: GameStatus;
@@ -8,18 +15,24 @@ interface GameState {
   bestScore: number;
   lastScore: number;
   hasPlayedBefore: boolean;
-  startGame: () => void;
-  endGame: () => void;
+  seed: number | null;
+  mode: GameMode;
+  startGame: (options?: StartGameOptions) => void;
+  endGame: (finalScore: number) => void;
   restartGame: () => void;
-  incrementScore: (points?: number) => void;
 }
 
+// Screen-level game state. The score here is only updated when a run ends;
+// the live score belongs to the simulation.
+
 export function useGameState(): GameState {
   const [status, setStatus] = useState<GameStatus>('START');
   const [score, setScore] = useState(0);
   const [bestScore, setBestScore] = useState(0);
   const [lastScore, setLastScore] = useState(0);
   const [hasPlayedBefore, setHasPlayedBefore] = useState(false);
+  const [seed, setSeed] = useState<number | null>(null);
+  const [mode, setMode] = useState<GameMode>('classic');
 
   // Load scores from localStorage on mount
   useEffect(() => {
@@ -42,45 +55,45 @@ export function useGameState(): GameState {
     }
   }, []);
 
-  // Start the game
-  const startGame = () => {
+  // Start the game, optionally on a specific course seed
+  const startGame = useCallback(({ seed: runSeed = createSeed(), mode: runMode = 'classic' }: StartGameOptions = {}) => {
     setStatus('PLAYING');
+    setSeed(runSeed);
+    setMode(runMode);
     setScore(0);
     setHasPlayedBefore(true);
     
     if (typeof window !== 'undefined') {
       localStorage.setItem('flappyHelicopter_hasPlayed', 'true');
     }
-  };
+  }, []);
 
-  // End the game and update scores
-  const endGame = () => {
+  // End the game with the run's final score and update scores. The score is
+  // passed in rather than read from state so a stale closure can't lose it.
+  const endGame = useCallback((finalScore: number) => {
     setStatus('GAME_OVER');
-    setLastScore(score);
+    setScore(finalScore);
+    setLastScore(finalScore);
     
     if (typeof window !== 'undefined') {
-      localStorage.setItem('flappyHelicopter_lastScore', score.toString());
+      localStorage.setItem('flappyHelicopter_lastScore', finalScore.toString());
     }
     
     // Check if this is a new best score
-    if (score > bestScore) {
-      setBestScore(score);
+    setBestScore(prevBest => {
+      if (finalScore <= prevBest) return prevBest;
       
       if (typeof window !== 'undefined') {
-        localStorage.setItem('flappyHelicopter_bestScore', score.toString());
+        localStorage.setItem('flappyHelicopter_bestScore', finalScore.toString());
       }
-    }
-  };
+      return finalScore;
+    });
+  }, []);
 
   // Restart the game (go back to start screen)
-  const restartGame = () => {
+  const restartGame = useCallback(() => {
     setStatus('START');
-  };
-
-  // Increment the score
-  const incrementScore = (points: number = 1) => {
-    setScore(prevScore => prevScore + points);
-  };
+  }, []);
 
   return {
     status,
@@ -88,9 +101,10 @@ export function useGameState(): GameState {
     bestScore,
     lastScore,
     hasPlayedBefore,
+    seed,
+    mode,
     startGame,
     endGame,
-    restartGame,
-    incrementScore
+    restartGame
   };
 }
@@ -0,0 +1,11 @@
+import { useRef } from 'react';
+
+// Like useRef(create()), but `create` only runs on the first render, so
+// pools and other costly objects aren't built and thrown away every render
+export function useLazyRef<T>(create: () => T): { current: T } {
+  const ref = useRef<{ current: T } | null>(null);
+  if (ref.current === null) {
+    ref.current = { current: create() };
+  }
+  return ref.current;
+}
@@ -1,71 +1,99 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 
 // Type for the setValue function returned by useLocalStorage
 type SetValue<T> = (value: T | ((prevValue: T) => T)) => void;
 
+export type LocalStorageOptions<T> = {
+  // How the value is written and read back; JSON by default. If reading
+  // throws, the initial value is used instead.
+  serializer?: (value: T) => string;
+  deserializer?: (stored: string) => T;
+};
+
 /**
  * Custom hook for persisting state in localStorage
- * @param key The localStorage key
+ * @param key The localStorage key; the value is read again when it changes
  * @param initialValue The initial value (or function that returns it)
- * @returns [storedValue, setValue] tuple similar to useState
+ * @param options How the value is stored
+ * @returns [storedValue, setValue] tuple similar to useState, with a stable setValue
  */
 export function useLocalStorage<T>(
   key: string,
-  initialValue: T | (() => T)
+  initialValue: T | (() => T),
+  options: LocalStorageOptions<T> = {}
 ): [T, SetValue<T>] {
-  // State to store our value
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    if (typeof window === 'undefined') {
-      // Return initial value if running on server
-      return typeof initialValue === 'function'
-        ? (initialValue as () => T)()
-        : initialValue;
-    }
+  // Latest arguments, so the callbacks below never go stale
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const readValue = useCallback((storageKey: string): T => {
+    const initial = initialValueRef.current;
+    const getInitialValue = () =>
+      typeof initial === 'function' ? (initial as () => T)() : initial;
+
+    // Return initial value if running on server
+    if (typeof window === 'undefined') return getInitialValue();
 
     try {
       // Get from local storage by key
-      const item = window.localStorage.getItem(key);
-      // Parse stored json or return initialValue if none
-      return item ? JSON.parse(item) : (
-        typeof initialValue === 'function'
-          ? (initialValue as () => T)()
-          : initialValue
-      );
+      const item = window.localStorage.getItem(storageKey);
+      const deserialize = optionsRef.current.deserializer ?? JSON.parse;
+      // Parse stored value or return initialValue if none
+      return item !== null ? deserialize(item) : getInitialValue();
     } catch (error) {
       // If error, return initialValue
-      console.error(`Error reading localStorage key "${key}":`, error);
-      return typeof initialValue === 'function'
-        ? (initialValue as () => T)()
-        : initialValue;
+      console.error(`Error reading localStorage key "${storageKey}":`, error);
+      return getInitialValue();
     }
-  });
+  }, []);
+
+  // State to store our value
+  const [storedValue, setStoredValue] = useState<T>(() => readValue(key));
+  const valueRef = useRef(storedValue);
+
+  // Load the new key's value when the key changes, e.g. to another user's
+  const loadedKeyRef = useRef(key);
+  useEffect(() => {
+    if (loadedKeyRef.current === key) return;
+    loadedKeyRef.current = key;
+
+    const value = readValue(key);
+    valueRef.current = value;
+    setStoredValue(value);
+  }, [key, readValue]);
 
   // Return a wrapped version of useState's setter function that
   // persists the new value to localStorage
-  const setValue: SetValue<T> = (value) => {
+  const setValue: SetValue<T> = useCallback((value) => {
+    // Allow value to be a function so we have same API as useState
+    const valueToStore = value instanceof Function ? value(valueRef.current) : value;
+
+    // Save state
+    valueRef.current = valueToStore;
+    setStoredValue(valueToStore);
+
+    // Save to local storage
+    if (typeof window === 'undefined') return;
     try {
-      // Allow value to be a function so we have same API as useState
-      const valueToStore =
-        value instanceof Function ? value(storedValue) : value;
-      
-      // Save state
-      setStoredValue(valueToStore);
-      
-      // Save to local storage
-      if (typeof window !== 'undefined') {
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
-      }
+      const serialize = optionsRef.current.serializer ?? JSON.stringify;
+      window.localStorage.setItem(keyRef.current, serialize(valueToStore));
     } catch (error) {
       // A more advanced implementation would handle the error case
-      console.error(`Error setting localStorage key "${key}":`, error);
+      console.error(`Error setting localStorage key "${keyRef.current}":`, error);
     }
-  };
+  }, []);
 
   // Listen for changes to this localStorage key in other tabs/windows
   useEffect(() => {
     function handleStorageChange(e: StorageEvent) {
-      if (e.key === key && e.newValue) {
-        setStoredValue(JSON.parse(e.newValue));
+      if (e.key === key && e.newValue !== null) {
+        const value = readValue(key);
+        valueRef.current = value;
+        setStoredValue(value);
       }
     }
 
@@ -74,7 +102,7 @@ export function useLocalStorage<T>(
       window.addEventListener('storage', handleStorageChange);
       return () => window.removeEventListener('storage', handleStorageChange);
     }
-  }, [key]);
+  }, [key, readValue]);
 
   return [storedValue, setValue];
 }
@@ -0,0 +1,43 @@
+import { useCallback } from 'react';
+import { useLocalStorage, type LocalStorageOptions } from '~/hooks/useLocalStorage';
+import {
+  DEFAULT_SKIN_ID,
+  DEFAULT_TRAIL_ID,
+  type SkinId,
+  type TrailId,
+} from '~/lib/game/cosmetics';
+import { DEFAULT_DIFFICULTY_ID, type DifficultyId } from '~/lib/game/difficulty';
+
+export type Settings = {
+  ghostRacing: boolean; // race a ghost of your best run
+  showFrameStats: boolean; // FPS and frame time overlay
+  skin: SkinId; // equipped cosmetics, shown only while unlocked
+  trail: TrailId;
+  difficulty: DifficultyId; // profile for classic runs; daily and challenge runs set their own
+};
+
+const DEFAULT_SETTINGS: Settings = {
+  ghostRacing: true,
+  showFrameStats: false,
+  skin: DEFAULT_SKIN_ID,
+  trail: DEFAULT_TRAIL_ID,
+  difficulty: DEFAULT_DIFFICULTY_ID
+};
+
+const SETTINGS_STORAGE_KEY = 'flappyHelicopter_settings';
+
+const SETTINGS_STORAGE_OPTIONS: LocalStorageOptions<Settings> = {
+  // Merge over the defaults so newly added settings get a value
+  deserializer: stored => ({ ...DEFAULT_SETTINGS, ...JSON.parse(stored) })
+};
+
+// Player preferences, persisted in localStorage
+export function useSettings() {
+  const [settings, setSettings] = useLocalStorage(SETTINGS_STORAGE_KEY, DEFAULT_SETTINGS, SETTINGS_STORAGE_OPTIONS);
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, [setSettings]);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,43 @@
+import type { DifficultyId } from "~/lib/game/difficulty";
+import { decodeInputLog } from "~/lib/game/replay";
+import { getRun, getUserProfiles } from "~/lib/kv";
+
+// A shared run that other players can race on the same course
+export type Challenge = {
+  challengeId: string;
+  fid: number;
+  username: string | null;
+  score: number;
+  distance: number;
+  // The challenger's course: seed, world size and difficulty profile
+  seed: number;
+  width: number;
+  height: number;
+  difficulty: DifficultyId;
+  // World x where the challenger crashed, drawn as the target line
+  targetX: number;
+};
+
+// Look up a challenge by the id of the run it was created from
+export async function getChallenge(
+  challengeId: string
+): Promise<Challenge | null> {
+  const record = await getRun(challengeId);
+  const log = record ? decodeInputLog(record.run) : null;
+  if (!record || !log) return null;
+
+  const [profile] = await getUserProfiles([record.fid]);
+
+  return {
+    challengeId,
+    fid: record.fid,
+    username: profile?.username ?? null,
+    score: record.score,
+    distance: record.distance,
+    seed: log.seed,
+    width: log.width,
+    height: log.height,
+    difficulty: log.difficulty,
+    targetX: record.crashX,
+  };
+}
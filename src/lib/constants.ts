@@ -1,3 +1,6 @@
 export const PROJECT_ID = 'flappy-helicopter';
 export const PROJECT_TITLE = "Flappy Helicopter";
 export const PROJECT_DESCRIPTION = "A Farcaster Frames v2 Game";
+
+// Size of every share image and the metadata that describes it (frames expect 3:2)
+export const OG_IMAGE_SIZE = { width: 1200, height: 800 };
@@ -0,0 +1,180 @@
+import { TICK_RATE } from '~/lib/game/constants';
+import {
+  DEFAULT_SKIN_ID,
+  DEFAULT_TRAIL_ID,
+  type Cosmetic,
+  type SkinId,
+  type TrailId,
+} from '~/lib/game/cosmetics';
+import type { SimulationState } from '~/lib/game/simulation';
+
+/**
+ * Achievements, earned from lifetime stats and each unlocking a cosmetic.
+ *
+ * Stats are built up from events reported while a run is played. The game
+ * reports them live for instant feedback; the server reports them again
+ * while re-simulating each verified run, and only its record counts.
+ */
+
+export type LifetimeStats = {
+  runs: number;
+  pipesPassed: number;
+  bestScore: number;
+  longestCeilingFreeTicks: number; // longest stretch of one run without touching the ceiling
+  dayStreak: number; // consecutive UTC days played, up to lastPlayedDate
+  lastPlayedDate: string | null; // YYYY-MM-DD
+};
+
+export type AchievementId = 'pipes_50' | 'ceiling_free_60' | 'streak_7' | 'score_100';
+
+export type Achievement = {
+  id: AchievementId;
+  name: string;
+  description: string;
+  reward: Cosmetic;
+  isEarned: (stats: LifetimeStats) => boolean;
+};
+
+// Stats plus the achievements already announced to the player
+export type AchievementRecord = {
+  stats: LifetimeStats;
+  unlocked: AchievementId[];
+};
+
+export type RunEvent =
+  | { type: 'runStarted'; date: string } // UTC date the run was played
+  | { type: 'pipePassed' }
+  | { type: 'ceilingTouched'; tick: number }
+  | { type: 'runEnded'; tick: number; score: number };
+
+// Stats being updated by the run in progress
+export type AchievementTracker = {
+  stats: LifetimeStats;
+  ceilingFreeSince: number; // tick of the last ceiling touch this run
+};
+
+export const EMPTY_STATS: LifetimeStats = {
+  runs: 0,
+  pipesPassed: 0,
+  bestScore: 0,
+  longestCeilingFreeTicks: 0,
+  dayStreak: 0,
+  lastPlayedDate: null
+};
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'pipes_50',
+    name: 'Pipe Dream',
+    description: 'Pass 50 pipes',
+    reward: { kind: 'trail', id: 'rainbow' },
+    isEarned: stats => stats.pipesPassed >= 50
+  },
+  {
+    id: 'ceiling_free_60',
+    name: 'Head Clearance',
+    description: 'Survive 60s in one run without touching the ceiling',
+    reward: { kind: 'skin', id: 'stealth' },
+    isEarned: stats => stats.longestCeilingFreeTicks >= 60 * TICK_RATE
+  },
+  {
+    id: 'streak_7',
+    name: 'Regular',
+    description: 'Play 7 days in a row',
+    reward: { kind: 'skin', id: 'neon' },
+    isEarned: stats => stats.dayStreak >= 7
+  },
+  {
+    id: 'score_100',
+    name: 'Century',
+    description: 'Score 100 in one run',
+    reward: { kind: 'trail', id: 'stardust' },
+    isEarned: stats => stats.bestScore >= 100
+  }
+];
+
+export function createAchievementTracker(stats: LifetimeStats): AchievementTracker {
+  return { stats: { ...stats }, ceilingFreeSince: 0 };
+}
+
+// The UTC date before `date` (YYYY-MM-DD)
+function getPreviousDate(date: string): string {
+  const previous = new Date(`${date}T00:00:00Z`);
+  previous.setUTCDate(previous.getUTCDate() - 1);
+  return previous.toISOString().slice(0, 10);
+}
+
+// Fold one event into the tracker's stats, in place
+export function applyRunEvent(tracker: AchievementTracker, event: RunEvent) {
+  const { stats } = tracker;
+
+  switch (event.type) {
+    case 'runStarted':
+      tracker.ceilingFreeSince = 0;
+      if (stats.lastPlayedDate !== event.date) {
+        stats.dayStreak = stats.lastPlayedDate === getPreviousDate(event.date) ? stats.dayStreak + 1 : 1;
+        stats.lastPlayedDate = event.date;
+      }
+      break;
+    case 'pipePassed':
+      stats.pipesPassed += 1;
+      break;
+    case 'ceilingTouched':
+      stats.longestCeilingFreeTicks = Math.max(stats.longestCeilingFreeTicks, event.tick - tracker.ceilingFreeSince);
+      tracker.ceilingFreeSince = event.tick;
+      break;
+    case 'runEnded':
+      stats.longestCeilingFreeTicks = Math.max(stats.longestCeilingFreeTicks, event.tick - tracker.ceilingFreeSince);
+      stats.runs += 1;
+      stats.bestScore = Math.max(stats.bestScore, event.score);
+      break;
+  }
+}
+
+// Report the events one simulation tick produced, from the states before and
+// after it. The game and the server both count runs through this.
+export function reportTickEvents(
+  previous: SimulationState,
+  next: SimulationState,
+  report: (event: RunEvent) => void
+) {
+  // The obstacle pool is stepped in place, so a slot's previous state is at the same index
+  for (let i = 0; i < next.obstacles.length; i++) {
+    const obstacle = next.obstacles[i];
+    if (obstacle.active && obstacle.passed && !previous.obstacles[i].passed) {
+      report({ type: 'pipePassed' });
+    }
+  }
+
+  if (next.ceilingHits !== previous.ceilingHits) {
+    report({ type: 'ceilingTouched', tick: next.tick });
+  }
+
+  if (next.status === 'CRASHED' && previous.status !== 'CRASHED') {
+    report({ type: 'runEnded', tick: next.tick, score: next.score });
+  }
+}
+
+// Every achievement the stats qualify for
+export function getEarnedAchievements(stats: LifetimeStats): AchievementId[] {
+  return ACHIEVEMENTS.filter(achievement => achievement.isEarned(stats)).map(achievement => achievement.id);
+}
+
+// Skins and trails available with these achievements, defaults and bought skins included
+export function getUnlockedCosmetics(
+  unlocked: AchievementId[],
+  purchasedSkins: SkinId[] = []
+): { skins: SkinId[]; trails: TrailId[] } {
+  const skins: SkinId[] = [DEFAULT_SKIN_ID, ...purchasedSkins];
+  const trails: TrailId[] = [DEFAULT_TRAIL_ID];
+  for (const achievement of ACHIEVEMENTS) {
+    if (!unlocked.includes(achievement.id)) continue;
+    if (achievement.reward.kind === 'skin') {
+      // Skins can be both earned and bought
+      if (!skins.includes(achievement.reward.id)) skins.push(achievement.reward.id);
+    } else {
+      trails.push(achievement.reward.id);
+    }
+  }
+  return { skins, trails };
+}
@@ -0,0 +1,328 @@
+import { GROUND_HEIGHT, PIXELS_PER_METER } from '~/lib/game/constants';
+
+/**
+ * Parallax background with a day/night cycle.
+ *
+ * The scenery is a list of layers, each scrolling at its own fraction of the
+ * world scroll and tiled procedurally: every tile's shape comes from a hash
+ * of its index, so the scenery is endless, identical on every visit and
+ * never touches the simulation's random generator.
+ */
+
+export type ParallaxLayerKind = 'mountains' | 'clouds' | 'city' | 'ground';
+
+export type ParallaxLayer = {
+  kind: ParallaxLayerKind;
+  speed: number; // fraction of the world scroll speed
+  tileWidth: number; // width of one procedural tile, px
+  height: number; // tallest feature, px
+  seed: number; // varies the procedural shapes between layers
+};
+
+// Back to front
+export const PARALLAX_LAYERS: ParallaxLayer[] = [
+  { kind: 'mountains', speed: 0.1, tileWidth: 140, height: 200, seed: 1 },
+  { kind: 'clouds', speed: 0.2, tileWidth: 220, height: 120, seed: 2 },
+  { kind: 'city', speed: 0.35, tileWidth: 38, height: 130, seed: 3 },
+  { kind: 'ground', speed: 1, tileWidth: 50, height: GROUND_HEIGHT, seed: 4 }
+];
+
+// Day/night cycle, keyed to distance traveled
+const DAY_CYCLE_LENGTH = 800 * PIXELS_PER_METER; // one full day every 800m
+const DAY_CYCLE_STEPS = 240; // the palette changes in this many steps per day
+
+type Color = [number, number, number];
+
+type PaletteColors = {
+  skyTop: Color;
+  skyBottom: Color;
+  mountains: Color;
+  city: Color;
+  clouds: Color;
+  groundTop: Color;
+  groundBottom: Color;
+  groundStripe: Color;
+};
+
+export type Palette = { [K in keyof PaletteColors]: string } & {
+  stars: number; // opacity of the stars, 0-1
+  windows: number; // opacity of lit city windows, 0-1
+};
+
+type PaletteKeyframe = {
+  at: number; // position in the cycle, 0-1
+  colors: PaletteColors;
+  stars: number;
+  windows: number;
+};
+
+const DAY: PaletteKeyframe['colors'] = {
+  skyTop: [135, 206, 235],
+  skyBottom: [224, 247, 255],
+  mountains: [142, 172, 196],
+  city: [112, 128, 150],
+  clouds: [255, 255, 255],
+  groundTop: [139, 69, 19],
+  groundBottom: [101, 67, 33],
+  groundStripe: [93, 64, 55]
+};
+
+const DUSK: PaletteKeyframe['colors'] = {
+  skyTop: [72, 61, 139],
+  skyBottom: [255, 140, 90],
+  mountains: [110, 80, 120],
+  city: [70, 55, 85],
+  clouds: [255, 190, 170],
+  groundTop: [110, 55, 25],
+  groundBottom: [75, 45, 25],
+  groundStripe: [70, 45, 40]
+};
+
+const NIGHT: PaletteKeyframe['colors'] = {
+  skyTop: [10, 15, 40],
+  skyBottom: [35, 45, 90],
+  mountains: [30, 38, 70],
+  city: [20, 24, 45],
+  clouds: [90, 100, 130],
+  groundTop: [60, 35, 20],
+  groundBottom: [40, 25, 15],
+  groundStripe: [35, 25, 20]
+};
+
+const DAWN: PaletteKeyframe['colors'] = {
+  skyTop: [120, 140, 200],
+  skyBottom: [255, 200, 160],
+  mountains: [150, 140, 170],
+  city: [100, 100, 130],
+  clouds: [255, 225, 210],
+  groundTop: [120, 62, 22],
+  groundBottom: [90, 58, 30],
+  groundStripe: [80, 55, 45]
+};
+
+// Day holds longest, night next; dusk and dawn are short transitions
+const PALETTE_KEYFRAMES: PaletteKeyframe[] = [
+  { at: 0, colors: DAY, stars: 0, windows: 0 },
+  { at: 0.4, colors: DAY, stars: 0, windows: 0 },
+  { at: 0.5, colors: DUSK, stars: 0.2, windows: 0.6 },
+  { at: 0.6, colors: NIGHT, stars: 1, windows: 1 },
+  { at: 0.85, colors: NIGHT, stars: 1, windows: 1 },
+  { at: 0.93, colors: DAWN, stars: 0.2, windows: 0.3 },
+  { at: 1, colors: DAY, stars: 0, windows: 0 }
+];
+
+// Position in the day cycle (0-1) for a scroll distance, in whole palette steps
+export function getDayPhase(scrollX: number): number {
+  const cycle = (scrollX / DAY_CYCLE_LENGTH) % 1;
+  return Math.floor(cycle * DAY_CYCLE_STEPS) / DAY_CYCLE_STEPS;
+}
+
+const toCss = ([r, g, b]: Color) => `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+
+// Colors for a point in the day cycle, blended between keyframes
+export function getPalette(phase: number): Palette {
+  const nextIndex = PALETTE_KEYFRAMES.findIndex(keyframe => keyframe.at > phase);
+  const to = PALETTE_KEYFRAMES[nextIndex === -1 ? PALETTE_KEYFRAMES.length - 1 : nextIndex];
+  const from = PALETTE_KEYFRAMES[Math.max((nextIndex === -1 ? PALETTE_KEYFRAMES.length : nextIndex) - 1, 0)];
+  const t = to.at > from.at ? (phase - from.at) / (to.at - from.at) : 0;
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+
+  const colors = {} as Palette;
+  for (const key of Object.keys(from.colors) as (keyof PaletteColors)[]) {
+    const a = from.colors[key];
+    const b = to.colors[key];
+    colors[key] = toCss([lerp(a[0], b[0]), lerp(a[1], b[1]), lerp(a[2], b[2])]);
+  }
+  colors.stars = lerp(from.stars, to.stars);
+  colors.windows = lerp(from.windows, to.windows);
+  return colors;
+}
+
+// Stable pseudo-random value in [0, 1) for a tile of a layer
+function hashTile(seed: number, index: number): number {
+  let h = Math.imul(index ^ (seed * 0x9E3779B1), 0x85EBCA6B);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xC2B2AE35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+// Call `draw` for every tile of a layer that is at least partly on screen
+function forEachTile(
+  layer: ParallaxLayer,
+  w: number,
+  scrollX: number,
+  draw: (index: number, x: number) => void
+) {
+  const offset = scrollX * layer.speed;
+  const first = Math.floor(offset / layer.tileWidth) - 1;
+  for (let index = first; index * layer.tileWidth - offset < w + layer.tileWidth; index++) {
+    draw(index, index * layer.tileWidth - offset);
+  }
+}
+
+// Draw the sky gradient and, at night, the stars. Depends only on the
+// palette, so it can be painted once and kept until the palette changes.
+export function drawSky(ctx: CanvasRenderingContext2D, w: number, h: number, palette: Palette) {
+  const skyGradient = ctx.createLinearGradient(0, 0, 0, h - GROUND_HEIGHT);
+  skyGradient.addColorStop(0, palette.skyTop);
+  skyGradient.addColorStop(1, palette.skyBottom);
+  ctx.fillStyle = skyGradient;
+  ctx.fillRect(0, 0, w, h - GROUND_HEIGHT);
+
+  if (palette.stars > 0) {
+    ctx.fillStyle = `rgba(255, 255, 255, ${palette.stars})`;
+    for (let i = 0; i < 60; i++) {
+      const size = hashTile(99, i * 3 + 2) < 0.8 ? 1 : 2;
+      ctx.fillRect(hashTile(99, i * 3) * w, hashTile(99, i * 3 + 1) * (h - GROUND_HEIGHT) * 0.6, size, size);
+    }
+  }
+}
+
+// Draw the scrolling scenery layers, back to front
+export function drawParallaxLayers(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  scrollX: number,
+  palette: Palette,
+  layers: ParallaxLayer[] = PARALLAX_LAYERS
+) {
+  for (const layer of layers) {
+    switch (layer.kind) {
+      case 'mountains':
+        drawMountains(ctx, layer, w, h, scrollX, palette);
+        break;
+      case 'clouds':
+        drawClouds(ctx, layer, w, scrollX, palette);
+        break;
+      case 'city':
+        drawCity(ctx, layer, w, h, scrollX, palette);
+        break;
+      case 'ground':
+        drawGround(ctx, layer, w, h, scrollX, palette);
+        break;
+    }
+  }
+}
+
+// Draw the full background in one go, for single-canvas renderers
+export function drawBackground(ctx: CanvasRenderingContext2D, w: number, h: number, scrollX: number) {
+  const palette = getPalette(getDayPhase(scrollX));
+  drawSky(ctx, w, h, palette);
+  drawParallaxLayers(ctx, w, h, scrollX, palette);
+}
+
+// A ridge through a peak height at every tile boundary
+function drawMountains(
+  ctx: CanvasRenderingContext2D,
+  layer: ParallaxLayer,
+  w: number,
+  h: number,
+  scrollX: number,
+  palette: Palette
+) {
+  const groundY = h - GROUND_HEIGHT;
+
+  ctx.fillStyle = palette.mountains;
+  ctx.beginPath();
+  let lastX: number | null = null;
+  forEachTile(layer, w, scrollX, (index, x) => {
+    const peakY = groundY - layer.height * (0.35 + 0.65 * hashTile(layer.seed, index));
+    if (lastX === null) {
+      ctx.moveTo(x, groundY);
+    }
+    ctx.lineTo(x, peakY);
+    lastX = x;
+  });
+  if (lastX === null) return;
+  ctx.lineTo(lastX, groundY);
+  ctx.closePath();
+  ctx.fill();
+}
+
+// Some tiles have a cloud, at a height picked per tile
+function drawClouds(
+  ctx: CanvasRenderingContext2D,
+  layer: ParallaxLayer,
+  w: number,
+  scrollX: number,
+  palette: Palette
+) {
+  ctx.fillStyle = palette.clouds;
+  ctx.globalAlpha = 0.8;
+  forEachTile(layer, w, scrollX, (index, x) => {
+    if (hashTile(layer.seed, index) < 0.35) return;
+
+    const width = 70 + 60 * hashTile(layer.seed + 1, index);
+    const height = width * 0.45;
+    const cloudX = x + (layer.tileWidth - width) * hashTile(layer.seed + 2, index);
+    const cloudY = 30 + layer.height * hashTile(layer.seed + 3, index);
+
+    // Draw a simple cloud shape
+    ctx.beginPath();
+    ctx.arc(cloudX + width * 0.3, cloudY + height * 0.5, height * 0.5, 0, Math.PI * 2);
+    ctx.arc(cloudX + width * 0.7, cloudY + height * 0.5, height * 0.6, 0, Math.PI * 2);
+    ctx.arc(cloudX + width * 0.5, cloudY + height * 0.3, height * 0.4, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.globalAlpha = 1;
+}
+
+// One building per tile, with windows that light up at night
+function drawCity(
+  ctx: CanvasRenderingContext2D,
+  layer: ParallaxLayer,
+  w: number,
+  h: number,
+  scrollX: number,
+  palette: Palette
+) {
+  const groundY = h - GROUND_HEIGHT;
+  const windowSize = 4;
+  const windowSpacing = 9;
+
+  forEachTile(layer, w, scrollX, (index, x) => {
+    const width = layer.tileWidth - 4;
+    const height = layer.height * (0.3 + 0.7 * hashTile(layer.seed, index));
+
+    ctx.fillStyle = palette.city;
+    ctx.fillRect(x, groundY - height, width, height);
+
+    if (palette.windows <= 0) return;
+
+    ctx.fillStyle = `rgba(255, 220, 120, ${palette.windows})`;
+    for (let row = 0; (row + 1) * windowSpacing < height - 4; row++) {
+      for (let column = 0; (column + 1) * windowSpacing < width; column++) {
+        if (hashTile(layer.seed + row * 31 + column * 7, index) < 0.55) continue;
+        ctx.fillRect(
+          x + column * windowSpacing + 5,
+          groundY - height + row * windowSpacing + 6,
+          windowSize,
+          windowSize
+        );
+      }
+    }
+  });
+}
+
+// Ground strip with stripes that scroll with the world
+function drawGround(
+  ctx: CanvasRenderingContext2D,
+  layer: ParallaxLayer,
+  w: number,
+  h: number,
+  scrollX: number,
+  palette: Palette
+) {
+  const groundGradient = ctx.createLinearGradient(0, h - GROUND_HEIGHT, 0, h);
+  groundGradient.addColorStop(0, palette.groundTop);
+  groundGradient.addColorStop(1, palette.groundBottom);
+  ctx.fillStyle = groundGradient;
+  ctx.fillRect(0, h - GROUND_HEIGHT, w, GROUND_HEIGHT);
+
+  ctx.fillStyle = palette.groundStripe;
+  forEachTile(layer, w, scrollX, (_index, x) => {
+    ctx.fillRect(x, h - GROUND_HEIGHT + 10, 30, 5);
+  });
+}
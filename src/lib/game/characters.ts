@@ -0,0 +1,87 @@
+import {
+  HELICOPTER_HEIGHT,
+  HELICOPTER_WIDTH,
+  HITBOX_PADDING,
+} from '~/lib/game/constants';
+
+/**
+ * Playable characters.
+ *
+ * A character's size is part of the physics: it sets the hitbox and where
+ * the ground and ceiling stop it. The character is therefore recorded with
+ * every run so replays and server verification use the same one.
+ */
+
+export type CharacterId = 'helicopter' | 'rocket' | 'bird' | 'ufo';
+
+export type Character = {
+  id: CharacterId;
+  name: string;
+  emoji: string; // drawn when there is no sprite, or the sprites failed to load
+  emojiRotation: number; // degrees to turn the emoji so it faces right
+  color: string;
+  sprite: boolean; // drawn from the helicopter sprite atlas when loaded
+  width: number; // visual size, px
+  height: number;
+  hitboxPadding: number; // px trimmed from each side of the visual size
+};
+
+export const DEFAULT_CHARACTER_ID: CharacterId = 'helicopter';
+
+export const CHARACTERS: Record<CharacterId, Character> = {
+  helicopter: {
+    id: 'helicopter',
+    name: 'Helicopter',
+    emoji: '🚁',
+    emojiRotation: 0,
+    color: '#FFD700',
+    sprite: true,
+    width: HELICOPTER_WIDTH,
+    height: HELICOPTER_HEIGHT,
+    hitboxPadding: HITBOX_PADDING
+  },
+  rocket: {
+    id: 'rocket',
+    name: 'Rocket',
+    emoji: '🚀',
+    emojiRotation: 45,
+    color: '#FF5722',
+    sprite: false,
+    width: 44,
+    height: 28,
+    hitboxPadding: 4
+  },
+  bird: {
+    id: 'bird',
+    name: 'Bird',
+    emoji: '🐦',
+    emojiRotation: 0,
+    color: '#03A9F4',
+    sprite: false,
+    width: 32,
+    height: 30,
+    hitboxPadding: 4
+  },
+  ufo: {
+    id: 'ufo',
+    name: 'UFO',
+    emoji: '🛸',
+    emojiRotation: 0,
+    color: '#8BC34A',
+    sprite: false,
+    width: 48,
+    height: 24,
+    hitboxPadding: 3
+  }
+};
+
+// Roster order, as shown in the picker
+export const CHARACTER_IDS = Object.keys(CHARACTERS) as CharacterId[];
+
+export function isCharacterId(value: unknown): value is CharacterId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CHARACTERS, value);
+}
+
+export function getCharacter(id: CharacterId): Character {
+  return CHARACTERS[id];
+}
@@ -0,0 +1,240 @@
+import type { Character } from '~/lib/game/characters';
+import { cos, sin } from '~/lib/game/trig';
+
+// Collision types
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type Point = {
+  x: number;
+  y: number;
+};
+
+// A rectangle turned about its centre
+export type OrientedBox = {
+  x: number; // centre
+  y: number;
+  halfWidth: number;
+  halfHeight: number;
+  angle: number; // radians, clockwise on screen
+};
+
+// Collision shapes. Polygons must be convex.
+export type Shape =
+  | ({ type: 'rect' } & Rect)
+  | ({ type: 'box' } & OrientedBox)
+  | { type: 'circle'; x: number; y: number; radius: number }
+  | { type: 'polygon'; points: Point[] };
+
+// Get the character's hitbox centered on its position, optionally scaled down
+export function getHelicopterHitbox(x: number, y: number, character: Character, scale = 1): Rect {
+  const width = (character.width - (character.hitboxPadding * 2)) * scale;
+  const height = (character.height - (character.hitboxPadding * 2)) * scale;
+  return {
+    x: x - width / 2,
+    y: y - height / 2,
+    width,
+    height
+  };
+}
+
+// The character's hitbox turned with it, for obstacle collisions
+export function getHelicopterShape(
+  x: number,
+  y: number,
+  rotation: number, // degrees, as stored in the helicopter state
+  character: Character,
+  scale = 1
+): Extract<Shape, { type: 'box' }> {
+  const { width, height } = getHelicopterHitbox(x, y, character, scale);
+  return { type: 'box', x, y, halfWidth: width / 2, halfHeight: height / 2, angle: rotation * Math.PI / 180 };
+}
+
+// Check if two rectangles intersect (collision detection)
+export function checkCollision(rect1: Rect, rect2: Rect): boolean {
+  return (
+    rect1.x < rect2.x + rect2.width &&
+    rect1.x + rect1.width > rect2.x &&
+    rect1.y < rect2.y + rect2.height &&
+    rect1.y + rect1.height > rect2.y
+  );
+}
+
+// Check if a circle overlaps a rectangle
+export function checkCircleCollision(rect: Rect, x: number, y: number, radius: number): boolean {
+  const nearestX = Math.max(rect.x, Math.min(x, rect.x + rect.width));
+  const nearestY = Math.max(rect.y, Math.min(y, rect.y + rect.height));
+  const dx = x - nearestX;
+  const dy = y - nearestY;
+  return dx * dx + dy * dy < radius * radius;
+}
+
+// Corners of a rectangle, clockwise from the top left
+export function getRectPoints(rect: Rect): Point[] {
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height }
+  ];
+}
+
+// Corners of an oriented box, clockwise from the top left before turning
+export function getBoxPoints(box: OrientedBox): Point[] {
+  // Deterministic trig, so replays collide on exactly the same tick everywhere
+  const cosAngle = cos(box.angle);
+  const sinAngle = sin(box.angle);
+  const corner = (dx: number, dy: number): Point => ({
+    x: box.x + dx * cosAngle - dy * sinAngle,
+    y: box.y + dx * sinAngle + dy * cosAngle
+  });
+  return [
+    corner(-box.halfWidth, -box.halfHeight),
+    corner(box.halfWidth, -box.halfHeight),
+    corner(box.halfWidth, box.halfHeight),
+    corner(-box.halfWidth, box.halfHeight)
+  ];
+}
+
+// Outline of any shape but a circle
+function getShapePoints(shape: Exclude<Shape, { type: 'circle' }>): Point[] {
+  switch (shape.type) {
+    case 'rect':
+      return getRectPoints(shape);
+    case 'box':
+      return getBoxPoints(shape);
+    case 'polygon':
+      return shape.points;
+  }
+}
+
+// Smallest convex polygon containing all the points (monotone chain)
+export function getConvexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const lower: Point[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  // Each half ends where the other starts
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+// The area a box covers while moving from one pose to another in a single step.
+// Checking this instead of the end pose stops fast movement tunnelling through
+// thin shapes; turning between the poses is approximated by the hull of both.
+export function getSweptShape(from: OrientedBox, to: OrientedBox): Shape {
+  return { type: 'polygon', points: getConvexHull([...getBoxPoints(from), ...getBoxPoints(to)]) };
+}
+
+// True when the projections of two polygons onto the normal of one of a's edges don't overlap
+function hasSeparatingAxis(a: Point[], b: Point[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    const start = a[i];
+    const end = a[(i + 1) % a.length];
+    const axisX = start.y - end.y;
+    const axisY = end.x - start.x;
+
+    let minA = Infinity;
+    let maxA = -Infinity;
+    for (const point of a) {
+      const projection = point.x * axisX + point.y * axisY;
+      minA = Math.min(minA, projection);
+      maxA = Math.max(maxA, projection);
+    }
+
+    let minB = Infinity;
+    let maxB = -Infinity;
+    for (const point of b) {
+      const projection = point.x * axisX + point.y * axisY;
+      minB = Math.min(minB, projection);
+      maxB = Math.max(maxB, projection);
+    }
+
+    if (maxA <= minB || maxB <= minA) return true;
+  }
+  return false;
+}
+
+// Check if two convex polygons overlap (separating axis test)
+export function checkPolygonCollision(a: Point[], b: Point[]): boolean {
+  return !hasSeparatingAxis(a, b) && !hasSeparatingAxis(b, a);
+}
+
+// Check if a circle overlaps a convex polygon. Besides the edge normals, the
+// axis towards the nearest corner separates circles sitting off a corner.
+export function checkCirclePolygonCollision(points: Point[], x: number, y: number, radius: number): boolean {
+  let nearest = points[0];
+  let nearestDistance = Infinity;
+  for (const point of points) {
+    const distance = (point.x - x) * (point.x - x) + (point.y - y) * (point.y - y);
+    if (distance < nearestDistance) {
+      nearest = point;
+      nearestDistance = distance;
+    }
+  }
+
+  const isSeparatedAlong = (axisX: number, axisY: number) => {
+    // Math.sqrt is exactly rounded everywhere, unlike Math.hypot, so replays stay identical
+    const length = Math.sqrt(axisX * axisX + axisY * axisY);
+    if (length === 0) return false;
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (const point of points) {
+      const projection = (point.x * axisX + point.y * axisY) / length;
+      min = Math.min(min, projection);
+      max = Math.max(max, projection);
+    }
+    const center = (x * axisX + y * axisY) / length;
+    return max <= center - radius || center + radius <= min;
+  };
+
+  if (isSeparatedAlong(nearest.x - x, nearest.y - y)) return false;
+  for (let i = 0; i < points.length; i++) {
+    const start = points[i];
+    const end = points[(i + 1) % points.length];
+    if (isSeparatedAlong(start.y - end.y, end.x - start.x)) return false;
+  }
+  return true;
+}
+
+// Check if any two shapes overlap
+export function checkShapeCollision(a: Shape, b: Shape): boolean {
+  if (a.type === 'circle') {
+    if (b.type !== 'circle') {
+      return checkCirclePolygonCollision(getShapePoints(b), a.x, a.y, a.radius);
+    }
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const reach = a.radius + b.radius;
+    return dx * dx + dy * dy < reach * reach;
+  }
+  if (b.type === 'circle') {
+    return checkCirclePolygonCollision(getShapePoints(a), b.x, b.y, b.radius);
+  }
+  if (a.type === 'rect' && b.type === 'rect') {
+    return checkCollision(a, b);
+  }
+  return checkPolygonCollision(getShapePoints(a), getShapePoints(b));
+}
@@ -0,0 +1,64 @@
+// Bump whenever a change alters simulation results, so old recordings are not replayed wrongly
+export const PHYSICS_VERSION = 7;
+
+// Simulation timing - the engine always advances in fixed ticks
+export const TICK_RATE = 120; // ticks per second
+export const TICK_DURATION = 1 / TICK_RATE; // seconds per tick
+
+// Background scroll configuration
+export const BACKGROUND_SCROLL_SPEED = 50; // pixels per second
+export const GROUND_HEIGHT = 50; // pixels
+
+// Helicopter physics parameters
+export const GRAVITY = 600; // pixels per second squared
+export const THRUST = -400; // negative because y-axis is inverted in canvas
+export const MAX_VELOCITY = 400; // maximum vertical velocity
+export const ROTATION_FACTOR = 0.15; // how much the helicopter rotates based on velocity
+export const HORIZONTAL_SPEED = 60; // constant horizontal speed
+export const ACCELERATION_FACTOR = 0.85; // smoothing factor for acceleration (0-1)
+export const DECELERATION_FACTOR = 0.95; // smoothing factor for deceleration (0-1)
+export const TERMINAL_VELOCITY = 800; // absolute maximum velocity
+
+// Helicopter size
+export const HELICOPTER_WIDTH = 40;
+export const HELICOPTER_HEIGHT = 40;
+
+// Hitbox configuration (slightly smaller than visual size for better gameplay)
+export const HITBOX_PADDING = 5; // pixels to reduce hitbox size by
+
+// Obstacle configuration
+export const OBSTACLE_WIDTH = 60;
+export const OBSTACLE_POOL_SIZE = 6; // Maximum number of obstacles alive at once
+export const OBSTACLE_MIN_PIPE_HEIGHT = 50; // Minimum height of either pipe
+
+// Obstacle archetypes (the difficulty-based mix is in difficulty.ts)
+export const MOVING_PIPE_TRAVEL = 40; // pixels the gap drifts either way from where it spawned
+export const MOVING_PIPE_SPEED = 50; // pixels per second
+export const CAVE_SEGMENTS = 4; // straight sections per cave
+export const CAVE_SEGMENT_WIDTH = 80; // pixels
+export const CAVE_DRIFT = 30; // most the cave's centre line moves per section, pixels
+export const MINE_RADIUS = 22; // pixels
+export const MINE_TRAVEL = 30; // pixels a mine bobs either way from where it spawned
+export const MINE_SPEED = 30; // pixels per second
+export const SPINNING_BAR_LENGTH = 140; // pixels, end to end
+export const SPINNING_BAR_THICKNESS = 12; // pixels
+export const SPINNING_BAR_SPEED = Math.PI / 2; // radians per second
+
+// Power-up configuration (per-kind durations and spawn rates are in powerUps.ts)
+export const POWER_UP_POOL_SIZE = 3; // Maximum number of pickups in the world at once
+export const POWER_UP_RADIUS = 12; // pickup size, pixels
+export const SHIELD_GRACE_PERIOD = 1; // seconds of immunity after the shield absorbs a hit
+export const SLOWMO_FACTOR = 0.6; // scroll speed multiplier while slow motion is active
+export const SHRINK_FACTOR = 0.6; // hitbox and sprite scale while shrunk
+export const MAGNET_RADIUS = 120; // pixels within which collectibles are pulled in
+export const MAGNET_PULL_SPEED = 240; // pixels per second
+
+// Coin configuration
+export const COINS_PER_GAP = 3; // coins placed in a row through each obstacle's gap
+export const COIN_POOL_SIZE = OBSTACLE_POOL_SIZE * COINS_PER_GAP; // Maximum number of coins in the world at once
+export const COIN_SIZE = 14; // pixels
+
+// Scoring configuration
+export const DISTANCE_SCORE_INTERVAL = 100; // pixels scrolled per distance point
+export const OBSTACLE_PASS_POINTS = 5; // bonus points for clearing an obstacle
+export const PIXELS_PER_METER = 10; // world pixels per displayed meter of distance
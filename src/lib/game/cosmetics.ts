@@ -0,0 +1,77 @@
+import { EXHAUST, type EmitterConfig } from '~/lib/game/particles';
+
+/**
+ * Cosmetic unlocks. Skins tint the character and trails change its exhaust;
+ * neither affects the simulation. Skins with a price can also be bought
+ * with coins collected in runs.
+ */
+
+export type SkinId = 'classic' | 'stealth' | 'neon' | 'gold';
+export type TrailId = 'smoke' | 'rainbow' | 'stardust';
+
+export type Skin = {
+  id: SkinId;
+  name: string;
+  filter: string; // canvas filter applied to the character; browsers without filter support draw it untinted
+  price?: number; // coins; skins without a price can only be earned
+};
+
+export type Trail = {
+  id: TrailId;
+  name: string;
+  emitter: EmitterConfig;
+};
+
+export type Cosmetic = { kind: 'skin'; id: SkinId } | { kind: 'trail'; id: TrailId };
+
+// A player's coin balance and the skins they bought with it
+export type CoinWallet = {
+  balance: number;
+  skins: SkinId[];
+};
+
+export const EMPTY_WALLET: CoinWallet = { balance: 0, skins: [] };
+
+export const DEFAULT_SKIN_ID: SkinId = 'classic';
+export const DEFAULT_TRAIL_ID: TrailId = 'smoke';
+
+export const SKINS: Record<SkinId, Skin> = {
+  classic: { id: 'classic', name: 'Classic', filter: 'none' },
+  stealth: { id: 'stealth', name: 'Stealth', filter: 'grayscale(1) brightness(0.55)', price: 250 },
+  neon: { id: 'neon', name: 'Neon', filter: 'hue-rotate(150deg) saturate(2)', price: 500 },
+  gold: { id: 'gold', name: 'Gold', filter: 'sepia(1) saturate(3) brightness(1.1)', price: 1000 }
+};
+
+export const TRAILS: Record<TrailId, Trail> = {
+  smoke: { id: 'smoke', name: 'Smoke', emitter: EXHAUST },
+  rainbow: {
+    id: 'rainbow',
+    name: 'Rainbow',
+    emitter: {
+      ...EXHAUST,
+      life: [0.4, 0.7],
+      colors: ['#FF0000', '#FF7F00', '#FFFF00', '#00FF00', '#0000FF', '#8B00FF']
+    }
+  },
+  stardust: {
+    id: 'stardust',
+    name: 'Stardust',
+    emitter: {
+      ...EXHAUST,
+      rate: 60,
+      speed: [30, 70],
+      spread: 0.8,
+      size: [1.5, 3],
+      colors: ['#FFFFFF', '#FFF59D', '#B3E5FC'],
+      gravity: 0
+    }
+  }
+};
+
+export const SKIN_IDS = Object.keys(SKINS) as SkinId[];
+export const TRAIL_IDS = Object.keys(TRAILS) as TrailId[];
+
+// Display name of a cosmetic, e.g. "Neon skin"
+export function getCosmeticName(cosmetic: Cosmetic): string {
+  return cosmetic.kind === 'skin' ? `${SKINS[cosmetic.id].name} skin` : `${TRAILS[cosmetic.id].name} trail`;
+}
@@ -0,0 +1,28 @@
+import type { DifficultyId } from '~/lib/game/difficulty';
+import { seedFromString } from '~/lib/game/random';
+
+/**
+ * Daily challenge: everyone plays the same course for a UTC day, with a
+ * limited number of ranked attempts.
+ */
+
+export const DAILY_CHALLENGE_ATTEMPTS = 3;
+
+// Everyone flies the daily course on the same profile, whatever their own setting
+export const DAILY_DIFFICULTY_ID: DifficultyId = 'normal';
+
+// UTC date (YYYY-MM-DD) of the challenge running at `date`
+export function getChallengeDate(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Runs may be submitted a little after midnight for the previous day's challenge
+export function isChallengeDateOpen(challengeDate: string, now: Date = new Date()): boolean {
+  const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  return challengeDate === getChallengeDate(now) || challengeDate === getChallengeDate(yesterday);
+}
+
+// Course seed shared by every player for a challenge date
+export function getDailySeed(challengeDate: string): number {
+  return seedFromString(`daily:${challengeDate}`);
+}
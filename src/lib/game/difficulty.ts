@@ -0,0 +1,126 @@
+import type { ObstacleKind } from '~/lib/game/obstacles';
+
+/**
+ * Difficulty profiles: how speed, gaps, spacing and the obstacle mix change
+ * with distance. Tuning lives here as data rather than in the simulation.
+ *
+ * Each curve is a list of (distance in meters, value) points, linear between
+ * points and flat beyond the first and last. A profile's `version` must be
+ * bumped whenever its numbers change, so old runs can't be verified against
+ * new tuning and each version gets its own leaderboards.
+ */
+
+export type DifficultyId = 'easy' | 'normal' | 'hard';
+
+export type Curve = [distance: number, value: number][];
+
+export type DifficultyProfile = {
+  id: DifficultyId;
+  name: string;
+  version: number;
+  speed: Curve; // game speed multiplier
+  gapMin: Curve; // pixels between the pipes, and the narrow end of a cave
+  gapMax: Curve; // also the wide end of a cave
+  spacingMin: Curve; // pixels between the ends of consecutive obstacles
+  spacingMax: Curve;
+  obstacleMix: Record<ObstacleKind, Curve>; // relative share of new obstacles
+};
+
+export const DIFFICULTY_PROFILES: Record<DifficultyId, DifficultyProfile> = {
+  easy: {
+    id: 'easy',
+    name: 'Easy',
+    version: 1,
+    speed: [[0, 0.8], [1500, 1.0], [6000, 1.3]],
+    gapMin: [[0, 150]],
+    gapMax: [[0, 200]],
+    spacingMin: [[0, 300], [6000, 250]],
+    spacingMax: [[0, 400], [6000, 340]],
+    obstacleMix: {
+      pipes: [[0, 1], [6000, 0.6]],
+      movingPipes: [[0, 0], [500, 0.05], [6000, 0.2]],
+      cave: [[0, 0], [1500, 0], [6000, 0.1]],
+      mine: [[0, 0], [1500, 0], [6000, 0.1]],
+      spinningBar: [[0, 0]]
+    }
+  },
+  // Starts from the gaps, spacing and mix the game shipped with before profiles
+  // existed, but ramps over distance where that stepped speed up with score, so
+  // it doesn't reproduce old runs
+  normal: {
+    id: 'normal',
+    name: 'Normal',
+    version: 1,
+    speed: [[0, 1.0], [1000, 1.2], [3000, 1.5], [6000, 1.8]],
+    gapMin: [[0, 130]],
+    gapMax: [[0, 180]],
+    spacingMin: [[0, 250], [6000, 175]],
+    spacingMax: [[0, 350], [6000, 245]],
+    obstacleMix: {
+      pipes: [[0, 1], [6000, 0.3]],
+      movingPipes: [[0, 0.1], [6000, 0.3]],
+      cave: [[0, 0.05], [6000, 0.2]],
+      mine: [[0, 0.05], [6000, 0.2]],
+      spinningBar: [[0, 0], [6000, 0.2]]
+    }
+  },
+  hard: {
+    id: 'hard',
+    name: 'Hard',
+    version: 1,
+    speed: [[0, 1.2], [1500, 1.7], [4000, 2.2]],
+    gapMin: [[0, 120], [4000, 105]],
+    gapMax: [[0, 165], [4000, 140]],
+    spacingMin: [[0, 230], [4000, 160]],
+    spacingMax: [[0, 320], [4000, 220]],
+    obstacleMix: {
+      pipes: [[0, 0.6], [4000, 0.2]],
+      movingPipes: [[0, 0.3], [4000, 0.3]],
+      cave: [[0, 0.15], [4000, 0.25]],
+      mine: [[0, 0.15], [4000, 0.25]],
+      spinningBar: [[0, 0.1], [4000, 0.3]]
+    }
+  }
+};
+
+export const DIFFICULTY_IDS = Object.keys(DIFFICULTY_PROFILES) as DifficultyId[];
+
+export const DEFAULT_DIFFICULTY_ID: DifficultyId = 'normal';
+
+export function isDifficultyId(value: unknown): value is DifficultyId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DIFFICULTY_PROFILES, value);
+}
+
+export function getDifficultyProfile(id: DifficultyId): DifficultyProfile {
+  return DIFFICULTY_PROFILES[id] ?? DIFFICULTY_PROFILES[DEFAULT_DIFFICULTY_ID];
+}
+
+// Leaderboard a profile's runs are ranked on, e.g. "normal-v1"
+export function getDifficultyBoardId(id: DifficultyId): string {
+  return `${id}-v${getDifficultyProfile(id).version}`;
+}
+
+// Value of a curve at `distance` meters
+export function evaluateCurve(curve: Curve, distance: number): number {
+  if (distance <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [endDistance, endValue] = curve[i];
+    if (distance < endDistance) {
+      const [startDistance, startValue] = curve[i - 1];
+      return startValue + ((endValue - startValue) * (distance - startDistance)) / (endDistance - startDistance);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+// Relative share of each obstacle kind at `distance` meters
+export function getObstacleMix(profile: DifficultyProfile, distance: number): Record<ObstacleKind, number> {
+  const { obstacleMix } = profile;
+  return {
+    pipes: evaluateCurve(obstacleMix.pipes, distance),
+    movingPipes: evaluateCurve(obstacleMix.movingPipes, distance),
+    cave: evaluateCurve(obstacleMix.cave, distance),
+    mine: evaluateCurve(obstacleMix.mine, distance),
+    spinningBar: evaluateCurve(obstacleMix.spinningBar, distance)
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Frame timing for the performance overlay.
+ *
+ * Frames are accumulated over a short window and the averages published
+ * once per window, so the numbers stay readable on screen.
+ */
+
+const SAMPLE_WINDOW = 500; // ms
+
+export type FrameStats = {
+  fps: number;
+  frameTime: number; // average ms between frames over the last window
+  maxFrameTime: number; // slowest frame in the last window, ms
+  drawTime: number; // average ms spent drawing per frame
+  allocationsPerSecond: number; // rate of the allocation counter passed to recordFrame
+  // Window in progress
+  windowStart: number;
+  lastFrameAt: number;
+  frames: number;
+  windowDrawTime: number;
+  windowMaxFrameTime: number;
+  windowStartAllocations: number;
+};
+
+export function createFrameStats(now: number = performance.now()): FrameStats {
+  return {
+    fps: 0,
+    frameTime: 0,
+    maxFrameTime: 0,
+    drawTime: 0,
+    allocationsPerSecond: 0,
+    windowStart: now,
+    lastFrameAt: now,
+    frames: 0,
+    windowDrawTime: 0,
+    windowMaxFrameTime: 0,
+    windowStartAllocations: 0
+  };
+}
+
+// Record a frame that finished at `now` after spending `drawTime` ms drawing.
+// `allocations` is an ever-increasing count of objects created, if tracked.
+export function recordFrame(stats: FrameStats, now: number, drawTime: number, allocations = 0) {
+  stats.windowMaxFrameTime = Math.max(stats.windowMaxFrameTime, now - stats.lastFrameAt);
+  stats.lastFrameAt = now;
+  stats.frames += 1;
+  stats.windowDrawTime += drawTime;
+
+  const elapsed = now - stats.windowStart;
+  if (elapsed < SAMPLE_WINDOW) return;
+
+  stats.fps = (stats.frames * 1000) / elapsed;
+  stats.frameTime = elapsed / stats.frames;
+  stats.maxFrameTime = stats.windowMaxFrameTime;
+  stats.drawTime = stats.windowDrawTime / stats.frames;
+  stats.allocationsPerSecond = ((allocations - stats.windowStartAllocations) * 1000) / elapsed;
+
+  stats.windowStart = now;
+  stats.frames = 0;
+  stats.windowDrawTime = 0;
+  stats.windowMaxFrameTime = 0;
+  stats.windowStartAllocations = allocations;
+}
@@ -0,0 +1,139 @@
+import {
+  CAVE_SEGMENT_WIDTH,
+  SPINNING_BAR_THICKNESS,
+} from '~/lib/game/constants';
+import type { Shape } from '~/lib/game/collision';
+import type { Obstacle } from '~/lib/game/simulation';
+import { cos, sin } from '~/lib/game/trig';
+
+/**
+ * Obstacle archetypes and their collision shapes.
+ *
+ * Every kind shares one pooled `Obstacle` record so pool slots can be reused
+ * for any kind; fields a kind doesn't use are left at their defaults.
+ * Spawning and movement live in simulation.ts.
+ */
+
+export type ObstacleKind = 'pipes' | 'movingPipes' | 'cave' | 'mine' | 'spinningBar';
+
+export type ObstacleArchetype = {
+  kind: ObstacleKind;
+  name: string;
+};
+
+// How often each kind appears is set per difficulty profile, in difficulty.ts
+export const OBSTACLE_ARCHETYPES: Record<ObstacleKind, ObstacleArchetype> = {
+  pipes: { kind: 'pipes', name: 'Pipes' },
+  // The gap drifts up and down
+  movingPipes: { kind: 'movingPipes', name: 'Moving pipes' },
+  // A stretch of ceiling and floor that narrows as it goes
+  cave: { kind: 'cave', name: 'Cave' },
+  mine: { kind: 'mine', name: 'Mine' },
+  spinningBar: { kind: 'spinningBar', name: 'Spinning bar' }
+};
+
+export const OBSTACLE_KINDS = Object.keys(OBSTACLE_ARCHETYPES) as ObstacleKind[];
+
+// Pick a kind for a roll in [0, 1), in proportion to the given weights
+export function pickObstacleKind(roll: number, weights: Record<ObstacleKind, number>): ObstacleKind {
+  const total = OBSTACLE_KINDS.reduce((sum, kind) => sum + weights[kind], 0);
+  let threshold = 0;
+  for (const kind of OBSTACLE_KINDS) {
+    threshold += weights[kind] / total;
+    if (roll < threshold) return kind;
+  }
+  return 'pipes';
+}
+
+// Height of the cave ceiling or floor `x` pixels into the cave
+function getCaveEdge(edge: number[], x: number): number {
+  const segment = Math.min(Math.max(Math.floor(x / CAVE_SEGMENT_WIDTH), 0), edge.length - 2);
+  const t = Math.min(Math.max(x / CAVE_SEGMENT_WIDTH - segment, 0), 1);
+  return edge[segment] + (edge[segment + 1] - edge[segment]) * t;
+}
+
+// The shapes the helicopter must not touch
+export function getObstacleShapes(obstacle: Obstacle): Shape[] {
+  const { x, width } = obstacle;
+
+  switch (obstacle.kind) {
+    case 'pipes':
+    case 'movingPipes':
+      return [
+        { type: 'rect', x, y: 0, width, height: obstacle.topHeight },
+        { type: 'rect', x, y: obstacle.bottomY, width, height: obstacle.bottomHeight }
+      ];
+    case 'cave': {
+      // One quadrilateral above and below each straight section
+      const bottom = obstacle.bottomY + obstacle.bottomHeight;
+      const shapes: Shape[] = [];
+      for (let i = 0; i < obstacle.ceiling.length - 1; i++) {
+        const left = x + i * CAVE_SEGMENT_WIDTH;
+        const right = left + CAVE_SEGMENT_WIDTH;
+        shapes.push(
+          {
+            type: 'polygon',
+            points: [
+              { x: left, y: 0 },
+              { x: right, y: 0 },
+              { x: right, y: obstacle.ceiling[i + 1] },
+              { x: left, y: obstacle.ceiling[i] }
+            ]
+          },
+          {
+            type: 'polygon',
+            points: [
+              { x: left, y: obstacle.floor[i] },
+              { x: right, y: obstacle.floor[i + 1] },
+              { x: right, y: bottom },
+              { x: left, y: bottom }
+            ]
+          }
+        );
+      }
+      return shapes;
+    }
+    case 'mine':
+      return [{ type: 'circle', x: x + width / 2, y: obstacle.centerY, radius: obstacle.radius }];
+    case 'spinningBar': {
+      // A thin box around the pivot, turned to the bar's angle
+      const centerX = x + width / 2;
+      const alongX = cos(obstacle.angle) * obstacle.radius;
+      const alongY = sin(obstacle.angle) * obstacle.radius;
+      const acrossX = (-alongY / obstacle.radius) * (SPINNING_BAR_THICKNESS / 2);
+      const acrossY = (alongX / obstacle.radius) * (SPINNING_BAR_THICKNESS / 2);
+      return [
+        {
+          type: 'polygon',
+          points: [
+            { x: centerX - alongX - acrossX, y: obstacle.centerY - alongY - acrossY },
+            { x: centerX + alongX - acrossX, y: obstacle.centerY + alongY - acrossY },
+            { x: centerX + alongX + acrossX, y: obstacle.centerY + alongY + acrossY },
+            { x: centerX - alongX + acrossX, y: obstacle.centerY - alongY + acrossY }
+          ]
+        }
+      ];
+    }
+  }
+}
+
+// A height that is always clear at `x`, for coins and pickups. Moving parts
+// are allowed for, so it stays clear however long the obstacle has been moving.
+export function getSafeY(obstacle: Obstacle, x: number, worldBottom: number): number {
+  switch (obstacle.kind) {
+    case 'pipes':
+    case 'movingPipes':
+      // Drift never exceeds half the gap, so the middle of where it spawned stays open
+      return (obstacle.topHeight + obstacle.bottomY) / 2 - obstacle.offsetY;
+    case 'cave':
+      return (getCaveEdge(obstacle.ceiling, x - obstacle.x) + getCaveEdge(obstacle.floor, x - obstacle.x)) / 2;
+    case 'mine':
+    case 'spinningBar': {
+      // Pass on whichever side has more room
+      const originY = obstacle.centerY - obstacle.offsetY;
+      const top = originY - obstacle.radius - obstacle.travel;
+      const bottom = originY + obstacle.radius + obstacle.travel;
+      return top > worldBottom - bottom ? top / 2 : (bottom + worldBottom) / 2;
+    }
+  }
+}
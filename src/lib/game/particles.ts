@@ -0,0 +1,252 @@
+import type { FrameStats } from '~/lib/game/frameStats';
+
+/**
+ * Purely visual particle effects: exhaust, crash debris and sparkles.
+ *
+ * Particles live in a fixed pool shared by every emitter, so effects never
+ * allocate while playing. How much of the pool may be in use at once is the
+ * budget, which shrinks when the frame rate drops and recovers when it is
+ * healthy again. Particles use Math.random and never touch the simulation.
+ */
+
+export const PARTICLE_CAPACITY = 400;
+
+// The budget never drops below this share of the pool, so effects stay visible
+const MIN_BUDGET_SCALE = 0.2;
+// Frame rates that shrink or grow the budget, and how far each window moves it
+const LOW_FPS = 45;
+const HIGH_FPS = 55;
+const BUDGET_SHRINK = 0.7;
+const BUDGET_GROW = 1.1;
+
+export type Particle = {
+  active: boolean;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  age: number; // seconds
+  life: number; // seconds
+  size: number;
+  color: string;
+  gravity: number;
+  drag: number;
+  shrink: boolean;
+};
+
+type Range = [number, number];
+
+export type EmitterConfig = {
+  rate: number; // particles per second while emitting continuously
+  burst: number; // particles per burst
+  life: Range; // seconds
+  speed: Range; // px per second
+  angle: number; // radians, 0 points right
+  spread: number; // radians either side of `angle`
+  size: Range;
+  colors: string[];
+  gravity: number; // px per second squared
+  drag: number; // share of velocity lost per second, 0-1
+  shrink: boolean; // shrink as well as fade out
+};
+
+export const EXHAUST: EmitterConfig = {
+  rate: 90,
+  burst: 0,
+  life: [0.25, 0.5],
+  speed: [80, 140],
+  angle: Math.PI,
+  spread: 0.35,
+  size: [2, 5],
+  colors: ['#FF4500', '#FFA500', '#FFD700', '#999999'],
+  gravity: -40,
+  drag: 0.9,
+  shrink: true
+};
+
+export const DEBRIS: EmitterConfig = {
+  rate: 0,
+  burst: 60,
+  life: [0.6, 1.4],
+  speed: [60, 260],
+  angle: -Math.PI / 2,
+  spread: Math.PI,
+  size: [2, 6],
+  colors: ['#FFD700', '#B8860B', '#555555', '#FF4500', '#333333'],
+  gravity: 600,
+  drag: 0.5,
+  shrink: false
+};
+
+export const SPARKLES: EmitterConfig = {
+  rate: 0,
+  burst: 24,
+  life: [0.3, 0.7],
+  speed: [40, 120],
+  angle: 0,
+  spread: Math.PI,
+  size: [1.5, 3],
+  colors: ['#FFFFFF', '#FFF59D', '#FFD700'],
+  gravity: 0,
+  drag: 2,
+  shrink: true
+};
+
+export type ParticleSystem = {
+  particles: Particle[];
+  active: number;
+  budget: number; // most particles allowed at once
+  budgetCheckedAt: number; // frame stats window the budget was last adjusted for
+};
+
+// A continuous emitter, carrying fractional particles between frames
+export type Emitter = {
+  config: EmitterConfig;
+  carry: number;
+};
+
+function createParticle(): Particle {
+  return {
+    active: false,
+    x: 0,
+    y: 0,
+    vx: 0,
+    vy: 0,
+    age: 0,
+    life: 0,
+    size: 0,
+    color: '',
+    gravity: 0,
+    drag: 0,
+    shrink: false
+  };
+}
+
+export function createParticleSystem(capacity: number = PARTICLE_CAPACITY): ParticleSystem {
+  return {
+    particles: Array.from({ length: capacity }, createParticle),
+    active: 0,
+    budget: capacity,
+    budgetCheckedAt: 0
+  };
+}
+
+export function createEmitter(config: EmitterConfig): Emitter {
+  return { config, carry: 0 };
+}
+
+// Remove every particle, e.g. when a new run starts
+export function clearParticles(system: ParticleSystem) {
+  for (const particle of system.particles) {
+    particle.active = false;
+  }
+  system.active = 0;
+}
+
+const between = ([min, max]: Range) => min + Math.random() * (max - min);
+
+// Emit up to `count` particles at (x, y), as many as the budget allows.
+// `angle` rotates the config's direction, e.g. to follow the helicopter's tilt.
+export function emitParticles(
+  system: ParticleSystem,
+  config: EmitterConfig,
+  x: number,
+  y: number,
+  count: number,
+  angle = 0
+) {
+  let remaining = Math.min(count, system.budget - system.active);
+  for (let i = 0; i < system.particles.length && remaining > 0; i++) {
+    const particle = system.particles[i];
+    if (particle.active) continue;
+
+    const direction = config.angle + angle + (Math.random() * 2 - 1) * config.spread;
+    const speed = between(config.speed);
+    particle.active = true;
+    particle.x = x;
+    particle.y = y;
+    particle.vx = Math.cos(direction) * speed;
+    particle.vy = Math.sin(direction) * speed;
+    particle.age = 0;
+    particle.life = between(config.life);
+    particle.size = between(config.size);
+    particle.color = config.colors[Math.floor(Math.random() * config.colors.length)];
+    particle.gravity = config.gravity;
+    particle.drag = config.drag;
+    particle.shrink = config.shrink;
+    system.active += 1;
+    remaining -= 1;
+  }
+}
+
+// Emit a config's burst, scaled down along with the budget on slow devices
+export function emitBurst(system: ParticleSystem, config: EmitterConfig, x: number, y: number) {
+  const scale = system.budget / system.particles.length;
+  emitParticles(system, config, x, y, Math.ceil(config.burst * scale));
+}
+
+// Emit for `dt` seconds of a continuous emitter at (x, y)
+export function updateEmitter(
+  system: ParticleSystem,
+  emitter: Emitter,
+  x: number,
+  y: number,
+  dt: number,
+  angle = 0
+) {
+  emitter.carry += emitter.config.rate * dt;
+  const count = Math.floor(emitter.carry);
+  emitter.carry -= count;
+  emitParticles(system, emitter.config, x, y, count, angle);
+}
+
+// Move every live particle `dt` seconds on, shifted left by `scroll` px so
+// they stay put in the world while it scrolls past
+export function updateParticles(system: ParticleSystem, dt: number, scroll = 0) {
+  for (const particle of system.particles) {
+    if (!particle.active) continue;
+
+    particle.age += dt;
+    if (particle.age >= particle.life) {
+      particle.active = false;
+      system.active -= 1;
+      continue;
+    }
+
+    const damping = Math.max(1 - particle.drag * dt, 0);
+    particle.vx *= damping;
+    particle.vy = particle.vy * damping + particle.gravity * dt;
+    particle.x += particle.vx * dt - scroll;
+    particle.y += particle.vy * dt;
+  }
+}
+
+// Shrink the budget while frames are slow and grow it back when they recover.
+// Adjusts once per frame stats window.
+export function updateParticleBudget(system: ParticleSystem, stats: FrameStats) {
+  if (stats.fps === 0 || stats.windowStart === system.budgetCheckedAt) return;
+  system.budgetCheckedAt = stats.windowStart;
+
+  const capacity = system.particles.length;
+  if (stats.fps < LOW_FPS) {
+    system.budget = Math.max(Math.floor(system.budget * BUDGET_SHRINK), Math.ceil(capacity * MIN_BUDGET_SCALE));
+  } else if (stats.fps >= HIGH_FPS) {
+    system.budget = Math.min(Math.ceil(system.budget * BUDGET_GROW), capacity);
+  }
+}
+
+export function drawParticles(ctx: CanvasRenderingContext2D, system: ParticleSystem) {
+  if (system.active === 0) return;
+
+  ctx.save();
+  for (const particle of system.particles) {
+    if (!particle.active) continue;
+
+    const remaining = 1 - particle.age / particle.life;
+    const size = particle.shrink ? particle.size * remaining : particle.size;
+    ctx.globalAlpha = remaining;
+    ctx.fillStyle = particle.color;
+    ctx.fillRect(particle.x - size / 2, particle.y - size / 2, size, size);
+  }
+  ctx.restore();
+}
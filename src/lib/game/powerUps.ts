@@ -0,0 +1,69 @@
+import { TICK_RATE } from '~/lib/game/constants';
+
+/**
+ * Power-up kinds and their tuning.
+ *
+ * Pickups are placed by the course generator between obstacles; the effects
+ * themselves are applied in simulation.ts. Durations are in ticks so effects
+ * end on the same tick on every replay.
+ */
+
+export type PowerUpKind = 'shield' | 'slowmo' | 'shrink' | 'magnet';
+
+export type PowerUpConfig = {
+  kind: PowerUpKind;
+  name: string;
+  icon: string;
+  color: string;
+  duration: number; // ticks
+  spawnChance: number; // chance per gap between obstacles, at the starting game speed
+  maxSpawnChance: number; // chance once the game speed has maxed out
+};
+
+export const POWER_UPS: Record<PowerUpKind, PowerUpConfig> = {
+  // Lasts until it absorbs a hit or runs out
+  shield: {
+    kind: 'shield',
+    name: 'Shield',
+    icon: '🛡️',
+    color: '#03A9F4',
+    duration: 12 * TICK_RATE,
+    spawnChance: 0.04,
+    maxSpawnChance: 0.1
+  },
+  slowmo: {
+    kind: 'slowmo',
+    name: 'Slow motion',
+    icon: '⏳',
+    color: '#9C27B0',
+    duration: 5 * TICK_RATE,
+    spawnChance: 0.03,
+    maxSpawnChance: 0.09
+  },
+  shrink: {
+    kind: 'shrink',
+    name: 'Shrink',
+    icon: '🔻',
+    color: '#FF9800',
+    duration: 8 * TICK_RATE,
+    spawnChance: 0.04,
+    maxSpawnChance: 0.07
+  },
+  magnet: {
+    kind: 'magnet',
+    name: 'Magnet',
+    icon: '🧲',
+    color: '#F44336',
+    duration: 10 * TICK_RATE,
+    spawnChance: 0.06,
+    maxSpawnChance: 0.06
+  }
+};
+
+export const POWER_UP_KINDS = Object.keys(POWER_UPS) as PowerUpKind[];
+
+// Chance of a pickup of this kind at `difficulty`, from 0 (starting speed) to 1 (top speed)
+export function getPowerUpSpawnChance(kind: PowerUpKind, difficulty: number): number {
+  const { spawnChance, maxSpawnChance } = POWER_UPS[kind];
+  return spawnChance + (maxSpawnChance - spawnChance) * Math.min(Math.max(difficulty, 0), 1);
+}
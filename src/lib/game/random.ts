@@ -0,0 +1,41 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ *
+ * The generator state is a single 32-bit integer kept on the simulation
+ * state, so a run seeded with the same value always produces the same course.
+ */
+
+export type RandomState = {
+  rngState: number;
+};
+
+// Create a new random seed for a fresh run
+export function createSeed(): number {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+// Derive a seed from a string (e.g. a date or share code) using FNV-1a
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Return a float in [0, 1) and advance the generator state
+export function nextRandom(state: RandomState): number {
+  let t = (state.rngState = (state.rngState + 0x6d2b79f5) | 0);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+// Return an integer in [min, max) and advance the generator state
+export function nextRandomInt(state: RandomState, min: number, max: number): number {
+  return Math.floor(nextRandom(state) * (max - min)) + min;
+}
@@ -0,0 +1,432 @@
+import type { Character } from '~/lib/game/characters';
+import {
+  COIN_SIZE,
+  GROUND_HEIGHT,
+  POWER_UP_RADIUS,
+  SPINNING_BAR_THICKNESS,
+} from '~/lib/game/constants';
+import type { Skin } from '~/lib/game/cosmetics';
+import {
+  getBoxPoints,
+  getHelicopterShape,
+  type Rect,
+  type Shape,
+} from '~/lib/game/collision';
+import type { FrameStats } from '~/lib/game/frameStats';
+import { getObstacleShapes } from '~/lib/game/obstacles';
+import { POWER_UP_KINDS, POWER_UPS } from '~/lib/game/powerUps';
+import {
+  getHelicopterScale,
+  type Coin,
+  type Obstacle,
+  type PowerUp,
+  type PowerUpEffects,
+  type SimulationState,
+} from '~/lib/game/simulation';
+import {
+  drawSprite,
+  isAnimationFinished,
+  type HelicopterAtlas,
+} from '~/lib/game/sprites';
+
+// Canvas drawing routines shared by the live game and the replay viewer
+
+// The rotor spins this much faster while thrusting
+const ROTOR_THRUST_SPEEDUP = 2;
+
+// Emoji explosion used when the sprite atlas isn't available
+const FALLBACK_EXPLOSION = '💥';
+const FALLBACK_EXPLOSION_DURATION = 0.5; // seconds
+
+export type HelicopterDrawOptions = {
+  character: Character;
+  thrusting: boolean;
+  debug: boolean;
+  opacity?: number; // below 1 for ghosts
+  skin?: Skin;
+  scale?: number; // below 1 while shrunk
+  atlas?: HelicopterAtlas | null; // sprite characters are drawn as emoji until it has loaded
+  time?: number; // seconds, drives the rotor and flame animations
+};
+
+// Pipe style
+const PIPE_COLOR = '#2E8B57'; // Sea green
+const MOVING_PIPE_COLOR = '#20B2AA'; // Light sea green, so drifting pipes stand out
+const PIPE_BORDER_COLOR = '#1C6E44';
+const PIPE_CAP_HEIGHT = 15;
+
+function drawPipes(ctx: CanvasRenderingContext2D, obstacle: Obstacle) {
+  // Draw top pipe
+  ctx.fillStyle = obstacle.kind === 'movingPipes' ? MOVING_PIPE_COLOR : PIPE_COLOR;
+  ctx.fillRect(obstacle.x, 0, obstacle.width, obstacle.topHeight);
+  
+  // Draw bottom pipe
+  ctx.fillRect(obstacle.x, obstacle.bottomY, obstacle.width, obstacle.bottomHeight);
+  
+  // Draw pipe caps
+  ctx.fillStyle = PIPE_BORDER_COLOR;
+  ctx.fillRect(obstacle.x - 5, obstacle.topHeight - PIPE_CAP_HEIGHT, obstacle.width + 10, PIPE_CAP_HEIGHT);
+  ctx.fillRect(obstacle.x - 5, obstacle.bottomY, obstacle.width + 10, PIPE_CAP_HEIGHT);
+}
+
+// Rock above the ceiling line and below the floor line
+function drawCave(ctx: CanvasRenderingContext2D, obstacle: Obstacle) {
+  const bottom = obstacle.bottomY + obstacle.bottomHeight;
+  const sectionWidth = obstacle.width / (obstacle.ceiling.length - 1);
+  
+  ctx.fillStyle = '#5D4037';
+  ctx.strokeStyle = '#3E2723';
+  ctx.lineWidth = 3;
+  
+  [obstacle.ceiling, obstacle.floor].forEach((edge, i) => {
+    ctx.beginPath();
+    ctx.moveTo(obstacle.x, i === 0 ? 0 : bottom);
+    edge.forEach((y, j) => ctx.lineTo(obstacle.x + j * sectionWidth, y));
+    ctx.lineTo(obstacle.x + obstacle.width, i === 0 ? 0 : bottom);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  });
+}
+
+// Spiked ball with a blinking light
+function drawMine(ctx: CanvasRenderingContext2D, obstacle: Obstacle) {
+  const x = obstacle.x + obstacle.width / 2;
+  const y = obstacle.centerY;
+  const { radius } = obstacle;
+  const spikes = 8;
+  
+  ctx.strokeStyle = '#263238';
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  for (let i = 0; i < spikes; i++) {
+    const angle = (i / spikes) * Math.PI * 2;
+    ctx.moveTo(x + Math.cos(angle) * radius * 0.6, y + Math.sin(angle) * radius * 0.6);
+    ctx.lineTo(x + Math.cos(angle) * radius * 1.2, y + Math.sin(angle) * radius * 1.2);
+  }
+  ctx.stroke();
+  
+  ctx.fillStyle = '#37474F';
+  ctx.beginPath();
+  ctx.arc(x, y, radius * 0.8, 0, Math.PI * 2);
+  ctx.fill();
+  
+  ctx.fillStyle = Math.floor(Date.now() / 400) % 2 === 0 ? '#F44336' : '#B71C1C';
+  ctx.beginPath();
+  ctx.arc(x, y, radius * 0.25, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+function drawSpinningBar(ctx: CanvasRenderingContext2D, obstacle: Obstacle) {
+  const x = obstacle.x + obstacle.width / 2;
+  
+  ctx.save();
+  ctx.translate(x, obstacle.centerY);
+  ctx.rotate(obstacle.angle);
+  ctx.fillStyle = '#FF7043';
+  ctx.fillRect(-obstacle.radius, -SPINNING_BAR_THICKNESS / 2, obstacle.radius * 2, SPINNING_BAR_THICKNESS);
+  ctx.restore();
+  
+  // Hub the bar turns on
+  ctx.fillStyle = '#424242';
+  ctx.beginPath();
+  ctx.arc(x, obstacle.centerY, SPINNING_BAR_THICKNESS, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+// Outline a collision shape, for debug overlays
+export function drawShape(ctx: CanvasRenderingContext2D, shape: Shape) {
+  ctx.beginPath();
+  switch (shape.type) {
+    case 'rect':
+      ctx.rect(shape.x, shape.y, shape.width, shape.height);
+      break;
+    case 'circle':
+      ctx.arc(shape.x, shape.y, shape.radius, 0, Math.PI * 2);
+      break;
+    case 'box':
+    case 'polygon': {
+      const points = shape.type === 'box' ? getBoxPoints(shape) : shape.points;
+      points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      ctx.closePath();
+      break;
+    }
+  }
+  ctx.stroke();
+}
+
+// Draw obstacles, each kind in its own style
+export function drawObstacles(ctx: CanvasRenderingContext2D, obstacles: Obstacle[], debug: boolean) {  
+  obstacles.forEach(obstacle => {
+    // Free pool slots hold stale data
+    if (!obstacle.active) return;
+    
+    switch (obstacle.kind) {
+      case 'pipes':
+      case 'movingPipes':
+        drawPipes(ctx, obstacle);
+        break;
+      case 'cave':
+        drawCave(ctx, obstacle);
+        break;
+      case 'mine':
+        drawMine(ctx, obstacle);
+        break;
+      case 'spinningBar':
+        drawSpinningBar(ctx, obstacle);
+        break;
+    }
+    
+    // Draw the shapes collisions are tested against in debug mode
+    if (debug) {
+      ctx.strokeStyle = 'red';
+      ctx.lineWidth = 2;
+      getObstacleShapes(obstacle).forEach(shape => drawShape(ctx, shape));
+    }
+  });
+}
+
+// Draw the helicopter
+export function drawHelicopter(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  rotation: number,
+  { character, thrusting, debug, opacity = 1, skin, scale = 1, atlas = null, time = 0 }: HelicopterDrawOptions
+) {
+  // Save the current context state
+  ctx.save();
+  ctx.globalAlpha *= opacity;
+  if (skin && skin.filter !== 'none') {
+    ctx.filter = skin.filter;
+  }
+  
+  // Translate to the helicopter's position
+  ctx.translate(x, y);
+  ctx.scale(scale, scale);
+  
+  if (atlas && character.sprite) {
+    // The sprite faces right, so it only tilts with velocity
+    ctx.rotate(rotation * Math.PI / 180);
+    if (thrusting) {
+      drawSprite(ctx, atlas, 'flame', time, 0, 0);
+    }
+    drawSprite(ctx, atlas, 'body', time, 0, 0);
+    drawSprite(ctx, atlas, 'rotor', thrusting ? time * ROTOR_THRUST_SPEEDUP : time, 0, 0);
+  } else {
+    // Rotate based on velocity, turning the emoji to face right
+    ctx.rotate((rotation + character.emojiRotation) * Math.PI / 180);
+    
+    // Draw the character's emoji
+    ctx.font = `${Math.max(character.width, character.height)}px Arial`;
+    ctx.fillStyle = character.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(character.emoji, 0, 0);
+  }
+  
+  // Restore the context state
+  ctx.restore();
+  
+  // Draw the hitbox for debugging; it tilts with the body, not the emoji
+  if (debug) {
+    ctx.save();
+    ctx.strokeStyle = 'red';
+    ctx.lineWidth = 2;
+    drawShape(ctx, getHelicopterShape(x, y, rotation, character, scale));
+    ctx.restore();
+  }
+}
+
+// Draw coins as gold discs
+export function drawCoins(ctx: CanvasRenderingContext2D, coins: Coin[]) {
+  ctx.save();
+  ctx.fillStyle = '#FFD700';
+  ctx.strokeStyle = '#B8860B';
+  ctx.lineWidth = 2;
+  
+  coins.forEach(coin => {
+    // Free pool slots hold stale data
+    if (!coin.active) return;
+    
+    ctx.beginPath();
+    ctx.arc(coin.x, coin.y, COIN_SIZE / 2 - 1, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  });
+  ctx.restore();
+}
+
+// Draw power-up pickups as coloured tokens with their icon
+export function drawPowerUps(ctx: CanvasRenderingContext2D, powerUps: PowerUp[]) {
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `${POWER_UP_RADIUS * 1.2}px Arial`;
+  
+  powerUps.forEach(powerUp => {
+    // Free pool slots hold stale data
+    if (!powerUp.active) return;
+    
+    ctx.fillStyle = POWER_UPS[powerUp.kind].color;
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(powerUp.x, powerUp.y, POWER_UP_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillText(POWER_UPS[powerUp.kind].icon, powerUp.x, powerUp.y + 1);
+  });
+  ctx.restore();
+}
+
+// Bubble around a shielded helicopter; it blinks while the shield's grace period runs
+export function drawShield(ctx: CanvasRenderingContext2D, state: SimulationState, character: Character) {
+  const blinking = state.invulnerableTicks > 0;
+  if (state.effects.shield <= 0 && !blinking) return;
+  if (blinking && Math.floor(Date.now() / 100) % 2 === 0) return;
+  
+  const { x, y } = state.helicopter;
+  const radius = (Math.max(character.width, character.height) / 2 + 6) * getHelicopterScale(state);
+  ctx.save();
+  ctx.strokeStyle = POWER_UPS.shield.color;
+  ctx.fillStyle = 'rgba(3, 169, 244, 0.2)';
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
+
+// HUD countdown rings for running power-ups, laid out leftwards from (x, y)
+export function drawPowerUpTimers(ctx: CanvasRenderingContext2D, effects: PowerUpEffects, x: number, y: number) {
+  const radius = 16;
+  let centerX = x - radius;
+  
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = '16px Arial';
+  ctx.lineWidth = 4;
+  
+  for (const kind of POWER_UP_KINDS) {
+    if (effects[kind] <= 0) continue;
+    
+    const { color, duration, icon } = POWER_UPS[kind];
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.beginPath();
+    ctx.arc(centerX, y + radius, radius, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // The ring empties clockwise from the top as the effect runs out
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.arc(centerX, y + radius, radius - 2, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * (effects[kind] / duration));
+    ctx.stroke();
+    
+    ctx.fillText(icon, centerX, y + radius + 1);
+    centerX -= radius * 2 + 8;
+  }
+  ctx.restore();
+}
+
+// Crash explosion, `time` seconds after the crash; draws nothing once it has played
+export function drawExplosion(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  time: number,
+  atlas: HelicopterAtlas | null
+) {
+  if (atlas) {
+    if (!isAnimationFinished(atlas.animations.explosion, time)) {
+      drawSprite(ctx, atlas, 'explosion', time, x, y);
+    }
+    return;
+  }
+  
+  if (time >= FALLBACK_EXPLOSION_DURATION) return;
+  const progress = time / FALLBACK_EXPLOSION_DURATION;
+  ctx.save();
+  ctx.globalAlpha *= 1 - progress;
+  ctx.font = `${Math.round(30 + 30 * progress)}px Arial`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(FALLBACK_EXPLOSION, x, y);
+  ctx.restore();
+}
+
+// Dashed vertical line marking a distance to beat, with a label at the top
+export function drawTargetLine(ctx: CanvasRenderingContext2D, x: number, h: number, label: string) {
+  ctx.save();
+  ctx.strokeStyle = '#FFD700';
+  ctx.lineWidth = 3;
+  ctx.setLineDash([10, 8]);
+  ctx.beginPath();
+  ctx.moveTo(x, 0);
+  ctx.lineTo(x, h - GROUND_HEIGHT);
+  ctx.stroke();
+  
+  ctx.fillStyle = '#FFD700';
+  ctx.font = 'bold 14px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.fillText(label, x, 60);
+  ctx.restore();
+}
+
+// Performance overlay with frame rate and timings, anchored at its bottom-left corner
+export function drawFrameStats(ctx: CanvasRenderingContext2D, stats: FrameStats, x: number, y: number) {
+  const lines = [
+    `${stats.fps.toFixed(0)} fps`,
+    `frame ${stats.frameTime.toFixed(1)}ms (max ${stats.maxFrameTime.toFixed(1)})`,
+    `draw ${stats.drawTime.toFixed(2)}ms`
+  ];
+  
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(x, y - lines.length * 14 - 6, 170, lines.length * 14 + 6);
+  
+  ctx.fillStyle = stats.fps >= 55 ? '#4CAF50' : stats.fps >= 30 ? '#FFC107' : '#FF5722';
+  ctx.font = '12px monospace';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'bottom';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, x + 4, y - (lines.length - 1 - i) * 14 - 2);
+  });
+  ctx.restore();
+}
+
+// Clickable button drawn on the canvas
+export type CanvasButton<Id extends string = string> = Rect & {
+  id: Id;
+  label: string;
+  color: string;
+};
+
+// Draw a button-like shape with a centered label
+export function drawButton(ctx: CanvasRenderingContext2D, button: CanvasButton) {
+  ctx.fillStyle = button.color;
+  ctx.fillRect(button.x, button.y, button.width, button.height);
+  
+  ctx.fillStyle = 'white';
+  ctx.font = '16px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(button.label, button.x + button.width / 2, button.y + button.height / 2);
+}
+
+// Find the button under a point in canvas coordinates
+export function findButtonAt<Id extends string>(
+  buttons: CanvasButton<Id>[],
+  x: number,
+  y: number
+): CanvasButton<Id> | undefined {
+  return buttons.find(button =>
+    x >= button.x &&
+    x <= button.x + button.width &&
+    y >= button.y &&
+    y <= button.y + button.height
+  );
+}
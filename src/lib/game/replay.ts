@@ -0,0 +1,254 @@
+import { DEFAULT_CHARACTER_ID, isCharacterId, type CharacterId } from '~/lib/game/characters';
+import { PHYSICS_VERSION, TICK_DURATION, TICK_RATE } from '~/lib/game/constants';
+import {
+  DEFAULT_DIFFICULTY_ID,
+  getDifficultyProfile,
+  isDifficultyId,
+  type DifficultyId,
+} from '~/lib/game/difficulty';
+import { createSimulation, step, type Obstacle, type SimulationState } from '~/lib/game/simulation';
+
+/**
+ * Input recording and deterministic replay.
+ *
+ * A run is fully described by its seed, world size, character, difficulty profile and the ticks
+ * at which thrust was toggled. Thrust starts released, so even entries in `toggles`
+ * are presses and odd entries are releases.
+ */
+
+export type InputLog = {
+  version: number; // PHYSICS_VERSION the run was recorded with
+  seed: number;
+  width: number;
+  height: number;
+  character: CharacterId;
+  difficulty: DifficultyId;
+  difficultyVersion: number; // profile version the run was recorded with
+  ticks: number; // total ticks simulated
+  toggles: number[]; // tick stamps where thrust changed, ascending
+};
+
+// Start recording a new run
+export function createInputLog(
+  seed: number,
+  width: number,
+  height: number,
+  character: CharacterId = DEFAULT_CHARACTER_ID,
+  difficulty: DifficultyId = DEFAULT_DIFFICULTY_ID
+): InputLog {
+  return {
+    version: PHYSICS_VERSION,
+    seed,
+    width,
+    height,
+    character,
+    difficulty,
+    difficultyVersion: getDifficultyProfile(difficulty).version,
+    ticks: 0,
+    toggles: []
+  };
+}
+
+// Record the input used for the step taken at `tick`
+export function recordInput(log: InputLog, tick: number, thrust: boolean) {
+  if (thrust !== isThrustingAt(log, tick)) {
+    log.toggles.push(tick);
+  }
+  log.ticks = tick + 1;
+}
+
+// Whether thrust was held for the step taken at `tick`
+export function isThrustingAt(log: InputLog, tick: number): boolean {
+  // Binary search for the number of toggles at or before this tick
+  let low = 0;
+  let high = log.toggles.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (log.toggles[mid] <= tick) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low % 2 === 1;
+}
+
+// Re-simulate a run headlessly up to `untilTick` (the whole run by default).
+// `onStep` is shown the state before and after every tick.
+export function simulateInputLog(
+  log: InputLog,
+  untilTick: number = log.ticks,
+  onStep?: (previous: SimulationState, next: SimulationState) => void
+): SimulationState {
+  let state = createSimulation(log.width, log.height, log.seed, log.character, log.difficulty);
+  while (state.tick < untilTick && state.status === 'RUNNING') {
+    const next = step(state, { thrust: isThrustingAt(log, state.tick) }, TICK_DURATION);
+    onStep?.(state, next);
+    state = next;
+  }
+  return state;
+}
+
+export type CourseOutline = {
+  length: number; // world pixels covered, including the final screen
+  height: number;
+  // World x; kinds without pipes have an empty gap, and caves show the opening they start with
+  obstacles: Pick<Obstacle, 'kind' | 'x' | 'topHeight' | 'bottomY' | 'width' | 'centerY' | 'radius'>[];
+  path: { x: number; y: number }[]; // sampled helicopter positions in world coordinates
+  finalState: SimulationState;
+};
+
+// Re-simulate a run and collect everything needed to draw the whole course at once
+export function getCourseOutline(log: InputLog, pathSamples = 60): CourseOutline {
+  const obstacles: CourseOutline['obstacles'] = [];
+  const path: CourseOutline['path'] = [];
+  const sampleEvery = Math.max(1, Math.floor(log.ticks / pathSamples));
+
+  let state = createSimulation(log.width, log.height, log.seed, log.character, log.difficulty);
+  let furthestObstacleX = -Infinity;
+
+  const collect = () => {
+    // New obstacles always spawn to the right of every earlier one, but pool
+    // slots are reused so they can appear in any order
+    const seenUpTo = furthestObstacleX;
+    for (const obstacle of state.obstacles) {
+      const worldX = obstacle.x + state.scrollX;
+      if (obstacle.active && worldX > seenUpTo + 1) {
+        furthestObstacleX = Math.max(furthestObstacleX, worldX);
+        const { kind, topHeight, bottomY, width, centerY, radius } = obstacle;
+        obstacles.push({ kind, x: worldX, topHeight, bottomY, width, centerY, radius });
+      }
+    }
+    if (state.tick % sampleEvery === 0 || state.status !== 'RUNNING') {
+      path.push({ x: state.helicopter.x + state.scrollX, y: state.helicopter.y });
+    }
+  };
+
+  collect();
+  while (state.tick < log.ticks && state.status === 'RUNNING') {
+    state = step(state, { thrust: isThrustingAt(log, state.tick) }, TICK_DURATION);
+    collect();
+  }
+
+  return {
+    length: state.scrollX + log.width,
+    height: log.height,
+    obstacles,
+    path,
+    finalState: state
+  };
+}
+
+// Encode a log as a compact, URL-safe string
+export function encodeInputLog(log: InputLog): string {
+  // Store toggles as deltas so long runs stay short
+  const deltas = log.toggles.map((tick, i) => (tick - (i > 0 ? log.toggles[i - 1] : 0)).toString(36));
+  return [
+    log.version,
+    log.seed.toString(36),
+    log.width,
+    log.height,
+    log.ticks.toString(36),
+    deltas.join('-'),
+    log.character,
+    `${log.difficulty}.${log.difficultyVersion}`
+  ].join('_');
+}
+
+// Decode a string produced by encodeInputLog, or null if it is malformed.
+// Logs from before characters were added have no character part and were
+// all flown with the default one; likewise for difficulty profiles, which
+// started out at version 1.
+export function decodeInputLog(encoded: string): InputLog | null {
+  const parts = encoded.split('_');
+  if (parts.length < 6 || parts.length > 8) return null;
+
+  const [
+    version,
+    seed,
+    width,
+    height,
+    ticks,
+    deltas,
+    character = DEFAULT_CHARACTER_ID,
+    profile = `${DEFAULT_DIFFICULTY_ID}.1`
+  ] = parts;
+  if (!isCharacterId(character)) return null;
+
+  const [difficulty, difficultyVersion] = profile.split('.');
+  if (!isDifficultyId(difficulty)) return null;
+
+  const toggles: number[] = [];
+  let tick = 0;
+  for (const delta of deltas ? deltas.split('-') : []) {
+    tick += parseInt(delta, 36);
+    toggles.push(tick);
+  }
+
+  const log: InputLog = {
+    version: parseInt(version, 10),
+    seed: parseInt(seed, 36),
+    width: parseFloat(width),
+    height: parseFloat(height),
+    character,
+    difficulty,
+    difficultyVersion: parseInt(difficultyVersion, 10),
+    ticks: parseInt(ticks, 36),
+    toggles
+  };
+
+  const numbers = [log.version, log.seed, log.width, log.height, log.difficultyVersion, log.ticks, ...toggles];
+  if (numbers.some(value => !Number.isFinite(value))) return null;
+
+  return log;
+}
+
+// Replay cursor that supports scrubbing by keeping periodic checkpoints
+const CHECKPOINT_INTERVAL = TICK_RATE * 5; // one checkpoint every 5 seconds
+
+export type ReplayCursor = {
+  log: InputLog;
+  state: SimulationState;
+  previous: SimulationState;
+  checkpoints: SimulationState[]; // checkpoints[i] is the state at tick i * CHECKPOINT_INTERVAL
+};
+
+export function createReplayCursor(log: InputLog): ReplayCursor {
+  const state = createSimulation(log.width, log.height, log.seed, log.character, log.difficulty);
+  return {
+    log,
+    state,
+    previous: state,
+    checkpoints: [state]
+  };
+}
+
+// Advance the replay by one tick; returns false once the run is over
+export function advanceReplay(cursor: ReplayCursor): boolean {
+  const { log, state } = cursor;
+  if (state.tick >= log.ticks || state.status !== 'RUNNING') return false;
+
+  cursor.previous = state;
+  cursor.state = step(state, { thrust: isThrustingAt(log, state.tick) }, TICK_DURATION);
+
+  // States are immutable, so checkpoints can keep references
+  if (cursor.state.tick % CHECKPOINT_INTERVAL === 0) {
+    cursor.checkpoints[cursor.state.tick / CHECKPOINT_INTERVAL] = cursor.state;
+  }
+  return true;
+}
+
+// Jump to any tick, re-simulating from the nearest earlier checkpoint
+export function seekReplay(cursor: ReplayCursor, tick: number) {
+  const target = Math.max(0, Math.min(tick, cursor.log.ticks));
+
+  let index = Math.min(Math.floor(target / CHECKPOINT_INTERVAL), cursor.checkpoints.length - 1);
+  while (index > 0 && !cursor.checkpoints[index]) index--;
+
+  cursor.state = cursor.checkpoints[index];
+  cursor.previous = cursor.state;
+  while (cursor.state.tick < target && advanceReplay(cursor)) {
+    // Keep stepping until we reach the target tick
+  }
+  cursor.previous = cursor.state;
+}
@@ -0,0 +1,806 @@
+import {
+  ACCELERATION_FACTOR,
+  BACKGROUND_SCROLL_SPEED,
+  CAVE_DRIFT,
+  CAVE_SEGMENT_WIDTH,
+  CAVE_SEGMENTS,
+  COIN_POOL_SIZE,
+  COIN_SIZE,
+  COINS_PER_GAP,
+  DECELERATION_FACTOR,
+  DISTANCE_SCORE_INTERVAL,
+  GRAVITY,
+  GROUND_HEIGHT,
+  HORIZONTAL_SPEED,
+  MAGNET_PULL_SPEED,
+  MAGNET_RADIUS,
+  MINE_RADIUS,
+  MINE_SPEED,
+  MINE_TRAVEL,
+  MOVING_PIPE_SPEED,
+  MOVING_PIPE_TRAVEL,
+  OBSTACLE_MIN_PIPE_HEIGHT,
+  OBSTACLE_PASS_POINTS,
+  OBSTACLE_POOL_SIZE,
+  OBSTACLE_WIDTH,
+  PIXELS_PER_METER,
+  POWER_UP_POOL_SIZE,
+  POWER_UP_RADIUS,
+  ROTATION_FACTOR,
+  SHIELD_GRACE_PERIOD,
+  SHRINK_FACTOR,
+  SLOWMO_FACTOR,
+  SPINNING_BAR_LENGTH,
+  SPINNING_BAR_SPEED,
+  TERMINAL_VELOCITY,
+  THRUST,
+  TICK_RATE,
+} from '~/lib/game/constants';
+import { DEFAULT_CHARACTER_ID, getCharacter, type CharacterId } from '~/lib/game/characters';
+import {
+  checkCircleCollision,
+  checkCollision,
+  checkShapeCollision,
+  getHelicopterHitbox,
+  getHelicopterShape,
+  getSweptShape,
+  type Rect,
+} from '~/lib/game/collision';
+import {
+  DEFAULT_DIFFICULTY_ID,
+  evaluateCurve,
+  getDifficultyProfile,
+  getObstacleMix,
+  type DifficultyId,
+} from '~/lib/game/difficulty';
+import {
+  getObstacleShapes,
+  getSafeY,
+  pickObstacleKind,
+  type ObstacleKind,
+} from '~/lib/game/obstacles';
+import {
+  getPowerUpSpawnChance,
+  POWER_UP_KINDS,
+  POWER_UPS,
+  type PowerUpKind,
+} from '~/lib/game/powerUps';
+import { createSeed, nextRandom, nextRandomInt } from '~/lib/game/random';
+
+/**
+ * Framework-free game simulation.
+ *
+ * All state is plain JSON-serializable data so a run can be stepped in the
+ * browser, on the server or in a test without a DOM. `step` never mutates
+ * the state it is given; it returns the next state. The live game instead
+ * uses `advanceSimulation` and `copySimulation`, which work in place so each
+ * tick reuses the same state objects; only collision tests build small
+ * temporary shapes. All randomness comes from the seeded generator
+ * in the state, so the same seed and inputs always reproduce the same run.
+ */
+
+export type SimulationStatus = 'RUNNING' | 'CRASHED';
+
+export type HelicopterState = {
+  x: number;
+  y: number;
+  velocity: number;
+  acceleration: number;
+  rotation: number; // degrees
+};
+
+// One pooled record for every obstacle kind; see obstacles.ts for what each kind uses
+export type Obstacle = {
+  active: boolean; // false while the pool slot is free
+  kind: ObstacleKind;
+  x: number;
+  topHeight: number; // pipe gap; for caves, the opening they start with
+  bottomY: number;
+  bottomHeight: number; // bottomY + bottomHeight is always the world height
+  width: number;
+  passed: boolean;
+  // Vertical drift of moving pipes and mines, bouncing within ±travel of where they spawned
+  offsetY: number;
+  velocityY: number; // pixels per second
+  travel: number;
+  // Mines and spinning bars
+  centerY: number;
+  radius: number; // mine radius or half the bar's length
+  angle: number; // radians
+  angularSpeed: number; // radians per second
+  // Cave ceiling and floor heights at each section boundary, left to right
+  ceiling: number[];
+  floor: number[];
+};
+
+export type PowerUp = {
+  active: boolean; // false while the pool slot is free
+  kind: PowerUpKind;
+  x: number; // centre
+  y: number;
+};
+
+export type Coin = {
+  active: boolean; // false while the pool slot is free
+  x: number; // centre
+  y: number;
+};
+
+// Ticks left on each power-up's effect; 0 when it is off
+export type PowerUpEffects = Record<PowerUpKind, number>;
+
+export type ObstaclePoolStats = {
+  inUse: number; // active obstacles
+  highWater: number; // most obstacles active at once this run
+  spawned: number; // obstacles taken from the pool this run
+};
+
+export type SimulationState = {
+  status: SimulationStatus;
+  seed: number; // seed the run was started with
+  rngState: number; // current generator state, advanced by every random draw
+  width: number; // world width in pixels
+  height: number; // world height in pixels
+  character: CharacterId; // sets the hitbox size
+  difficulty: DifficultyId; // profile the course is tuned by
+  tick: number; // number of steps taken
+  scrollX: number; // distance scrolled in pixels
+  gameSpeed: number;
+  score: number;
+  ceilingHits: number; // ticks spent bounced off the ceiling
+  helicopter: HelicopterState;
+  obstacles: Obstacle[]; // fixed-capacity pool; only active entries are in play
+  pool: ObstaclePoolStats;
+  powerUps: PowerUp[]; // fixed-capacity pool of pickups, like obstacles
+  effects: PowerUpEffects;
+  invulnerableTicks: number; // obstacles are ignored after the shield absorbs a hit
+  coins: Coin[]; // fixed-capacity pool, like obstacles
+  coinsCollected: number; // coins picked up this run
+};
+
+export type SimulationInput = {
+  thrust: boolean;
+};
+
+// Obstacle objects created so far, to show that the pool stops allocating
+let obstacleAllocations = 0;
+
+export function getObstacleAllocationCount(): number {
+  return obstacleAllocations;
+}
+
+function createPowerUp(): PowerUp {
+  return { active: false, kind: 'shield', x: 0, y: 0 };
+}
+
+function createCoin(): Coin {
+  return { active: false, x: 0, y: 0 };
+}
+
+function createEffects(): PowerUpEffects {
+  return { shield: 0, slowmo: 0, shrink: 0, magnet: 0 };
+}
+
+function createObstacle(): Obstacle {
+  obstacleAllocations += 1;
+  return {
+    active: false,
+    kind: 'pipes',
+    x: 0,
+    topHeight: 0,
+    bottomY: 0,
+    bottomHeight: 0,
+    width: 0,
+    passed: false,
+    offsetY: 0,
+    velocityY: 0,
+    travel: 0,
+    centerY: 0,
+    radius: 0,
+    angle: 0,
+    angularSpeed: 0,
+    ceiling: new Array<number>(CAVE_SEGMENTS + 1).fill(0),
+    floor: new Array<number>(CAVE_SEGMENTS + 1).fill(0)
+  };
+}
+
+// Copy an obstacle into another pool slot, keeping the slot's own cave arrays
+function copyObstacle(target: Obstacle, source: Obstacle) {
+  const { ceiling, floor } = target;
+  Object.assign(target, source);
+  target.ceiling = ceiling;
+  target.floor = floor;
+  for (let i = 0; i < source.ceiling.length; i++) {
+    ceiling[i] = source.ceiling[i];
+    floor[i] = source.floor[i];
+  }
+}
+
+// Create the initial state for a new run
+export function createSimulation(
+  width: number,
+  height: number,
+  seed: number = createSeed(),
+  character: CharacterId = DEFAULT_CHARACTER_ID,
+  difficulty: DifficultyId = DEFAULT_DIFFICULTY_ID
+): SimulationState {
+  return {
+    status: 'RUNNING',
+    seed,
+    rngState: seed,
+    width,
+    height,
+    character,
+    difficulty,
+    tick: 0,
+    scrollX: 0,
+    gameSpeed: evaluateCurve(getDifficultyProfile(difficulty).speed, 0),
+    score: 0,
+    ceilingHits: 0,
+    helicopter: {
+      x: width / 4,
+      y: height / 2,
+      velocity: 0,
+      acceleration: 0,
+      rotation: 0
+    },
+    obstacles: Array.from({ length: OBSTACLE_POOL_SIZE }, createObstacle),
+    pool: { inUse: 0, highWater: 0, spawned: 0 },
+    powerUps: Array.from({ length: POWER_UP_POOL_SIZE }, createPowerUp),
+    effects: createEffects(),
+    invulnerableTicks: 0,
+    coins: Array.from({ length: COIN_POOL_SIZE }, createCoin),
+    coinsCollected: 0
+  };
+}
+
+// Deep copy a state so it can be modified without touching the original
+export function cloneSimulation(state: SimulationState): SimulationState {
+  const clone: SimulationState = {
+    ...state,
+    helicopter: { ...state.helicopter },
+    obstacles: state.obstacles.map(createObstacle),
+    pool: { ...state.pool },
+    powerUps: state.powerUps.map(createPowerUp),
+    effects: createEffects(),
+    coins: state.coins.map(createCoin)
+  };
+  return copySimulation(clone, state);
+}
+
+// Overwrite `target` with `source` without allocating; both must share a pool size
+export function copySimulation(target: SimulationState, source: SimulationState): SimulationState {
+  target.status = source.status;
+  target.seed = source.seed;
+  target.rngState = source.rngState;
+  target.width = source.width;
+  target.height = source.height;
+  target.character = source.character;
+  target.difficulty = source.difficulty;
+  target.tick = source.tick;
+  target.scrollX = source.scrollX;
+  target.gameSpeed = source.gameSpeed;
+  target.score = source.score;
+  target.ceilingHits = source.ceilingHits;
+  Object.assign(target.helicopter, source.helicopter);
+  for (let i = 0; i < source.obstacles.length; i++) {
+    copyObstacle(target.obstacles[i], source.obstacles[i]);
+  }
+  Object.assign(target.pool, source.pool);
+  for (let i = 0; i < source.powerUps.length; i++) {
+    Object.assign(target.powerUps[i], source.powerUps[i]);
+  }
+  Object.assign(target.effects, source.effects);
+  target.invulnerableTicks = source.invulnerableTicks;
+  for (let i = 0; i < source.coins.length; i++) {
+    Object.assign(target.coins[i], source.coins[i]);
+  }
+  target.coinsCollected = source.coinsCollected;
+  return target;
+}
+
+// Blend two consecutive states for rendering between fixed ticks. Pass `out`
+// to reuse a state object instead of allocating a new one every frame.
+export function interpolateSimulation(
+  previous: SimulationState,
+  current: SimulationState,
+  alpha: number,
+  out?: SimulationState
+): SimulationState {
+  if (!out && (previous === current || alpha >= 1)) return current;
+
+  const result = out ? copySimulation(out, current) : cloneSimulation(current);
+  if (previous === current || alpha >= 1) return result;
+
+  const lerp = (a: number, b: number) => a + (b - a) * alpha;
+
+  // Obstacles move exactly with the scroll, so shift them by the scroll we haven't reached yet
+  result.scrollX = lerp(previous.scrollX, current.scrollX);
+  const scrollOffset = current.scrollX - result.scrollX;
+
+  result.helicopter.x = lerp(previous.helicopter.x, current.helicopter.x);
+  result.helicopter.y = lerp(previous.helicopter.y, current.helicopter.y);
+  result.helicopter.rotation = lerp(previous.helicopter.rotation, current.helicopter.rotation);
+  for (const obstacle of result.obstacles) {
+    obstacle.x += scrollOffset;
+  }
+  for (const powerUp of result.powerUps) {
+    powerUp.x += scrollOffset;
+  }
+  for (const coin of result.coins) {
+    coin.x += scrollOffset;
+  }
+
+  return result;
+}
+
+// Game speed follows the difficulty profile's curve over distance
+export function getGameSpeed(state: SimulationState): number {
+  return evaluateCurve(getDifficultyProfile(state.difficulty).speed, getCourseDistance(state));
+}
+
+// World scroll speed in pixels per second, slowed while slow motion is active
+export function getScrollSpeed(state: SimulationState): number {
+  return BACKGROUND_SCROLL_SPEED * state.gameSpeed * (state.effects.slowmo > 0 ? SLOWMO_FACTOR : 1);
+}
+
+// How much the character is scaled down by the shrink power-up
+export function getHelicopterScale(state: SimulationState): number {
+  return state.effects.shrink > 0 ? SHRINK_FACTOR : 1;
+}
+
+// Distance flown in whole meters, as shown to players
+export function getDistance(state: SimulationState): number {
+  return Math.floor(state.scrollX / PIXELS_PER_METER);
+}
+
+// Exact distance in meters, which the difficulty curves are measured in
+function getCourseDistance(state: SimulationState): number {
+  return state.scrollX / PIXELS_PER_METER;
+}
+
+// How far the game speed has ramped up along the profile's curve, from 0 (starting speed) to 1 (top speed)
+function getDifficulty(state: SimulationState): number {
+  const { speed } = getDifficultyProfile(state.difficulty);
+  const initial = speed[0][1];
+  const max = speed[speed.length - 1][1];
+  return max > initial ? (state.gameSpeed - initial) / (max - initial) : 1;
+}
+
+// Check if the helicopter touches any obstacle on its way to its new position and rotation
+function checkObstacleCollisions(
+  state: SimulationState,
+  x: number,
+  y: number,
+  rotation: number,
+  scrollDistance: number
+): boolean {
+  const { helicopter } = state;
+  const character = getCharacter(state.character);
+  const scale = getHelicopterScale(state);
+
+  // Obstacles are tested where they were before this tick's scroll, so
+  // relative to them the helicopter ends one scroll step further on
+  const from = getHelicopterShape(helicopter.x, helicopter.y, helicopter.rotation, character, scale);
+  const to = getHelicopterShape(x + scrollDistance, y, rotation, character, scale);
+  const swept = getSweptShape(from, to);
+
+  return state.obstacles.some(obstacle =>
+    obstacle.active && getObstacleShapes(obstacle).some(shape => checkShapeCollision(swept, shape))
+  );
+}
+
+// Take a free obstacle from the pool and place one of the archetypes, picked by the profile's mix
+function spawnObstacle(state: SimulationState, startX: number): Obstacle | null {
+  // Respect the maximum number of live obstacles
+  const obstacle = state.obstacles.find(candidate => !candidate.active);
+  if (!obstacle) return null;
+
+  obstacle.active = true;
+  obstacle.kind = pickObstacleKind(
+    nextRandom(state),
+    getObstacleMix(getDifficultyProfile(state.difficulty), getCourseDistance(state))
+  );
+  obstacle.x = startX;
+  obstacle.passed = false;
+  obstacle.offsetY = 0;
+  obstacle.velocityY = 0;
+  obstacle.travel = 0;
+  obstacle.centerY = 0;
+  obstacle.radius = 0;
+  obstacle.angle = 0;
+  obstacle.angularSpeed = 0;
+
+  // Kinds without pipes leave the whole height open
+  setGap(state, obstacle, 0, state.height);
+
+  switch (obstacle.kind) {
+    case 'pipes':
+    case 'movingPipes':
+      placePipes(state, obstacle);
+      break;
+    case 'cave':
+      placeCave(state, obstacle);
+      break;
+    case 'mine':
+      placeMine(state, obstacle);
+      break;
+    case 'spinningBar':
+      placeSpinningBar(state, obstacle);
+      break;
+  }
+
+  const { pool } = state;
+  pool.inUse += 1;
+  pool.spawned += 1;
+  pool.highWater = Math.max(pool.highWater, pool.inUse);
+
+  spawnCoins(state, obstacle);
+  return obstacle;
+}
+
+function setGap(state: SimulationState, obstacle: Obstacle, topHeight: number, bottomY: number) {
+  obstacle.topHeight = topHeight;
+  obstacle.bottomY = bottomY;
+  obstacle.bottomHeight = state.height - bottomY;
+}
+
+// Narrowest and widest gap the profile allows at the current distance
+function getGapRange(state: SimulationState): [number, number] {
+  const profile = getDifficultyProfile(state.difficulty);
+  const distance = getCourseDistance(state);
+  return [evaluateCurve(profile.gapMin, distance), evaluateCurve(profile.gapMax, distance)];
+}
+
+// Pipe pair with a randomized gap; moving pipes also drift up and down
+function placePipes(state: SimulationState, obstacle: Obstacle) {
+  // Randomize gap height and position
+  const [gapMin, gapMax] = getGapRange(state);
+  const gapHeight = nextRandomInt(state, gapMin, gapMax);
+
+  // Moving pipes drift less in small worlds, so neither pipe ever gets too short
+  const room = state.height - GROUND_HEIGHT - gapHeight - OBSTACLE_MIN_PIPE_HEIGHT * 2;
+  const travel = obstacle.kind === 'movingPipes' ? Math.max(0, Math.min(MOVING_PIPE_TRAVEL, room / 2)) : 0;
+
+  // Ensure the gap isn't too close to the top or bottom
+  const minTopHeight = OBSTACLE_MIN_PIPE_HEIGHT + travel;
+  const maxTopHeight = state.height - GROUND_HEIGHT - gapHeight - OBSTACLE_MIN_PIPE_HEIGHT - travel;
+
+  // Calculate random top pipe height
+  const topHeight = nextRandomInt(state, minTopHeight, maxTopHeight);
+  setGap(state, obstacle, topHeight, topHeight + gapHeight);
+  obstacle.width = OBSTACLE_WIDTH;
+
+  if (obstacle.kind === 'movingPipes') {
+    obstacle.travel = travel;
+    obstacle.velocityY = nextRandom(state) < 0.5 ? -MOVING_PIPE_SPEED : MOVING_PIPE_SPEED;
+  }
+}
+
+// Ceiling and floor that wander and close in from the widest pipe gap to the narrowest
+function placeCave(state: SimulationState, obstacle: Obstacle) {
+  const bottom = state.height - GROUND_HEIGHT;
+  const [gapMin, gapMax] = getGapRange(state);
+  let center = nextRandomInt(
+    state,
+    OBSTACLE_MIN_PIPE_HEIGHT + gapMax / 2,
+    bottom - OBSTACLE_MIN_PIPE_HEIGHT - gapMax / 2
+  );
+
+  for (let i = 0; i <= CAVE_SEGMENTS; i++) {
+    const gapHeight = gapMax + ((gapMin - gapMax) * i) / CAVE_SEGMENTS;
+    if (i > 0) {
+      const minCenter = OBSTACLE_MIN_PIPE_HEIGHT + gapHeight / 2;
+      const maxCenter = bottom - OBSTACLE_MIN_PIPE_HEIGHT - gapHeight / 2;
+      center = Math.min(Math.max(center + nextRandomInt(state, -CAVE_DRIFT, CAVE_DRIFT), minCenter), maxCenter);
+    }
+    obstacle.ceiling[i] = center - gapHeight / 2;
+    obstacle.floor[i] = center + gapHeight / 2;
+  }
+
+  setGap(state, obstacle, obstacle.ceiling[0], obstacle.floor[0]);
+  obstacle.width = CAVE_SEGMENTS * CAVE_SEGMENT_WIDTH;
+}
+
+// A mine bobbing somewhere in the open, leaving room to pass on at least one side
+function placeMine(state: SimulationState, obstacle: Obstacle) {
+  const margin = MINE_RADIUS + MINE_TRAVEL;
+  obstacle.centerY = nextRandomInt(state, margin, state.height - GROUND_HEIGHT - margin);
+  obstacle.radius = MINE_RADIUS;
+  obstacle.width = MINE_RADIUS * 2;
+  obstacle.travel = MINE_TRAVEL;
+  obstacle.velocityY = nextRandom(state) < 0.5 ? -MINE_SPEED : MINE_SPEED;
+}
+
+// A bar turning about its middle, either way round
+function placeSpinningBar(state: SimulationState, obstacle: Obstacle) {
+  const radius = SPINNING_BAR_LENGTH / 2;
+  obstacle.centerY = nextRandomInt(state, radius, state.height - GROUND_HEIGHT - radius);
+  obstacle.radius = radius;
+  obstacle.width = SPINNING_BAR_LENGTH;
+  obstacle.angle = nextRandom(state) * Math.PI;
+  obstacle.angularSpeed = nextRandom(state) < 0.5 ? -SPINNING_BAR_SPEED : SPINNING_BAR_SPEED;
+}
+
+// Move drifting obstacles, bouncing at the ends of their travel, and turn spinning ones
+function moveObstacle(obstacle: Obstacle, deltaTime: number) {
+  if (obstacle.velocityY !== 0) {
+    let offsetY = obstacle.offsetY + obstacle.velocityY * deltaTime;
+    if (offsetY > obstacle.travel || offsetY < -obstacle.travel) {
+      const limit = offsetY > 0 ? obstacle.travel : -obstacle.travel;
+      offsetY = limit * 2 - offsetY;
+      obstacle.velocityY = -obstacle.velocityY;
+    }
+
+    const deltaY = offsetY - obstacle.offsetY;
+    obstacle.offsetY = offsetY;
+    if (obstacle.kind === 'movingPipes') {
+      obstacle.topHeight += deltaY;
+      obstacle.bottomY += deltaY;
+      obstacle.bottomHeight -= deltaY;
+    } else {
+      obstacle.centerY += deltaY;
+    }
+  }
+
+  obstacle.angle += obstacle.angularSpeed * deltaTime;
+}
+
+// Line coins up along a path through the obstacle that is always clear
+function spawnCoins(state: SimulationState, obstacle: Obstacle) {
+  const worldBottom = state.height - GROUND_HEIGHT;
+
+  for (let i = 0; i < COINS_PER_GAP; i++) {
+    const coin = state.coins.find(candidate => !candidate.active);
+    if (!coin) return;
+
+    coin.active = true;
+    coin.x = obstacle.x + (obstacle.width * (i + 0.5)) / COINS_PER_GAP;
+    coin.y = getSafeY(obstacle, coin.x, worldBottom);
+  }
+}
+
+// Move obstacles, award pass points, recycle the ones that left the screen and spawn new ones as needed
+function updateObstacles(state: SimulationState, deltaTime: number, scrollSpeed: number) {
+  const heliLeft = state.helicopter.x - getCharacter(state.character).width / 2;
+  // Slow motion slows moving obstacles down along with the scroll
+  const motionTime = state.effects.slowmo > 0 ? deltaTime * SLOWMO_FACTOR : deltaTime;
+  let lastObstacle: Obstacle | null = null;
+
+  for (const obstacle of state.obstacles) {
+    if (!obstacle.active) continue;
+
+    // Move obstacle left at the synchronized speed
+    obstacle.x -= scrollSpeed * deltaTime;
+    moveObstacle(obstacle, motionTime);
+
+    // Award points once the helicopter has passed this obstacle
+    if (!obstacle.passed && obstacle.x + obstacle.width < heliLeft) {
+      obstacle.passed = true;
+      state.score += OBSTACLE_PASS_POINTS;
+    }
+
+    // Return obstacles that have scrolled off screen to the pool
+    if (obstacle.x + obstacle.width < 0) {
+      obstacle.active = false;
+      state.pool.inUse -= 1;
+    } else if (!lastObstacle || obstacle.x > lastObstacle.x) {
+      lastObstacle = obstacle;
+    }
+  }
+
+  // Start from the right edge of the screen when no obstacles are left
+  if (state.pool.inUse === 0) {
+    lastObstacle = spawnObstacle(state, state.width + 100);
+  }
+
+  // Keep a few obstacles queued up beyond the right edge
+  if (lastObstacle && state.pool.inUse < 3) {
+
+    // Spacing follows the profile, usually closing up the further the run goes
+    const profile = getDifficultyProfile(state.difficulty);
+    const distance = getCourseDistance(state);
+    const minSpacing = evaluateCurve(profile.spacingMin, distance);
+    const maxSpacing = evaluateCurve(profile.spacingMax, distance);
+    const spacing = nextRandomInt(state, minSpacing, maxSpacing);
+
+    // Spacing is between standard pipes; wider obstacles push the next one back by their extra width
+    const next = spawnObstacle(state, lastObstacle.x + lastObstacle.width - OBSTACLE_WIDTH + spacing);
+    if (next) {
+      spawnPowerUp(state, lastObstacle, next);
+    }
+  }
+}
+
+// Maybe place a pickup halfway between two obstacles, level with the middle of their clear paths
+function spawnPowerUp(state: SimulationState, before: Obstacle, after: Obstacle) {
+  // Always draw, so whether a pickup fits never changes the rest of the course
+  const roll = nextRandom(state);
+  const difficulty = getDifficulty(state);
+  let threshold = 0;
+  const kind = POWER_UP_KINDS.find(candidate => roll < (threshold += getPowerUpSpawnChance(candidate, difficulty)));
+  if (!kind) return;
+
+  const powerUp = state.powerUps.find(candidate => !candidate.active);
+  if (!powerUp) return;
+
+  powerUp.active = true;
+  powerUp.kind = kind;
+  const worldBottom = state.height - GROUND_HEIGHT;
+  const beforeX = before.x + before.width;
+  powerUp.x = (beforeX + after.x) / 2;
+  powerUp.y = (getSafeY(before, beforeX, worldBottom) + getSafeY(after, after.x, worldBottom)) / 2;
+}
+
+// Pull a collectible toward the helicopter while the magnet is on and it is in range
+function applyMagnet(state: SimulationState, item: { x: number; y: number }, deltaTime: number) {
+  if (state.effects.magnet <= 0) return;
+
+  const dx = state.helicopter.x - item.x;
+  const dy = state.helicopter.y - item.y;
+  // Math.sqrt is exactly rounded everywhere, unlike Math.hypot, so replays stay identical
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance === 0 || distance > MAGNET_RADIUS) return;
+
+  const pull = Math.min(MAGNET_PULL_SPEED * deltaTime, distance);
+  item.x += (dx / distance) * pull;
+  item.y += (dy / distance) * pull;
+}
+
+// Reused for coin collision tests so the hot path doesn't allocate
+const coinRect: Rect = { x: 0, y: 0, width: COIN_SIZE, height: COIN_SIZE };
+
+// Move coins with the world, collect the ones the helicopter touches and free the ones left behind
+function updateCoins(state: SimulationState, deltaTime: number, scrollSpeed: number) {
+  const { helicopter } = state;
+  const hitbox = getHelicopterHitbox(helicopter.x, helicopter.y, getCharacter(state.character), getHelicopterScale(state));
+
+  for (const coin of state.coins) {
+    if (!coin.active) continue;
+
+    coin.x -= scrollSpeed * deltaTime;
+    applyMagnet(state, coin, deltaTime);
+
+    coinRect.x = coin.x - COIN_SIZE / 2;
+    coinRect.y = coin.y - COIN_SIZE / 2;
+    if (checkCollision(hitbox, coinRect)) {
+      coin.active = false;
+      state.coinsCollected += 1;
+    } else if (coin.x + COIN_SIZE / 2 < 0) {
+      coin.active = false;
+    }
+  }
+}
+
+// Move pickups with the world, collect the ones the helicopter touches and free the ones left behind
+function updatePowerUps(state: SimulationState, deltaTime: number, scrollSpeed: number) {
+  const { helicopter } = state;
+  const hitbox = getHelicopterHitbox(helicopter.x, helicopter.y, getCharacter(state.character), getHelicopterScale(state));
+
+  for (const powerUp of state.powerUps) {
+    if (!powerUp.active) continue;
+
+    powerUp.x -= scrollSpeed * deltaTime;
+    applyMagnet(state, powerUp, deltaTime);
+
+    if (checkCircleCollision(hitbox, powerUp.x, powerUp.y, POWER_UP_RADIUS)) {
+      // Picking up a kind that is already running restarts its timer
+      powerUp.active = false;
+      state.effects[powerUp.kind] = POWER_UPS[powerUp.kind].duration;
+    } else if (powerUp.x + POWER_UP_RADIUS < 0) {
+      powerUp.active = false;
+    }
+  }
+}
+
+/**
+ * Advance the simulation by `deltaTime` seconds with the given input.
+ * Returns a new state; a crashed state is returned unchanged.
+ */
+export function step(
+  state: SimulationState,
+  input: SimulationInput,
+  deltaTime: number
+): SimulationState {
+  if (state.status !== 'RUNNING') return state;
+
+  return advanceSimulation(cloneSimulation(state), input, deltaTime);
+}
+
+// Same as `step`, but updates `next` in place and returns it
+export function advanceSimulation(
+  next: SimulationState,
+  input: SimulationInput,
+  deltaTime: number
+): SimulationState {
+  if (next.status !== 'RUNNING') return next;
+
+  const heli = next.helicopter;
+  const { height: heliHeight } = getCharacter(next.character);
+  next.tick += 1;
+
+  // Run down power-up timers
+  for (const kind of POWER_UP_KINDS) {
+    if (next.effects[kind] > 0) next.effects[kind] -= 1;
+  }
+  if (next.invulnerableTicks > 0) next.invulnerableTicks -= 1;
+
+  // Scroll the world with game speed
+  const previousScrollX = next.scrollX;
+  const scrollSpeed = getScrollSpeed(next);
+  next.scrollX += scrollSpeed * deltaTime;
+
+  // Calculate target acceleration based on thrust or gravity
+  const targetAcceleration = input.thrust ? THRUST : GRAVITY;
+
+  // Smoothly interpolate current acceleration toward target
+  let newAcceleration = heli.acceleration * ACCELERATION_FACTOR +
+                          targetAcceleration * (1 - ACCELERATION_FACTOR);
+
+  // Update velocity with smoothed acceleration
+  let newVelocity = heli.velocity + newAcceleration * deltaTime;
+
+  // Apply air resistance (deceleration) when not accelerating strongly
+  if (Math.abs(newAcceleration) < Math.abs(targetAcceleration) * 0.8) {
+    newVelocity *= DECELERATION_FACTOR;
+  }
+
+  // Clamp velocity to maximum
+  newVelocity = Math.max(Math.min(newVelocity, TERMINAL_VELOCITY), -TERMINAL_VELOCITY);
+
+  // Calculate rotation based on velocity with smoothing
+  const targetRotation = newVelocity * ROTATION_FACTOR;
+  const newRotation = heli.rotation * 0.9 + targetRotation * 0.1;
+
+  // Update position with velocity
+  let newY = heli.y + newVelocity * deltaTime;
+
+  // Move forward at constant speed, but keep the helicopter at 1/4 of the screen width
+  const newX = Math.min(heli.x + HORIZONTAL_SPEED * deltaTime, next.width * 0.25);
+
+  // Hit the ground - game over
+  if (newY > next.height - GROUND_HEIGHT - heliHeight / 2) {
+    next.status = 'CRASHED';
+    return next;
+  }
+
+  // Hit the ceiling - bounce slightly with reduced velocity. The world has
+  // already scrolled this tick, so the rest of it still has to catch up
+  if (newY < heliHeight / 2) {
+    newY = heliHeight / 2;
+    next.ceilingHits += 1;
+    newVelocity = Math.abs(newVelocity) * 0.3;
+    newAcceleration = 0;
+  }
+
+  // Hit an obstacle - the shield absorbs one hit, otherwise game over
+  if (next.invulnerableTicks === 0 && checkObstacleCollisions(next, newX, newY, newRotation, scrollSpeed * deltaTime)) {
+    if (next.effects.shield > 0) {
+      next.effects.shield = 0;
+      next.invulnerableTicks = SHIELD_GRACE_PERIOD * TICK_RATE;
+    } else {
+      next.status = 'CRASHED';
+      return next;
+    }
+  }
+
+  heli.x = newX;
+  heli.y = newY;
+  heli.velocity = newVelocity;
+  heli.acceleration = newAcceleration;
+  heli.rotation = newRotation;
+
+  // Coins move before obstacles spawn, so new coins start level with their obstacle
+  updateCoins(next, deltaTime, scrollSpeed);
+  updateObstacles(next, deltaTime, scrollSpeed);
+  updatePowerUps(next, deltaTime, scrollSpeed);
+
+  // Award a point for every interval of distance traveled
+  if (Math.floor(previousScrollX / DISTANCE_SCORE_INTERVAL) !== Math.floor(next.scrollX / DISTANCE_SCORE_INTERVAL)) {
+    next.score += 1;
+  }
+
+  next.gameSpeed = getGameSpeed(next);
+
+  return next;
+}
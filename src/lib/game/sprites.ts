@@ -0,0 +1,97 @@
+/**
+ * Sprite atlas loading and frame animation.
+ *
+ * An atlas is one image cut into square cells, with one animation per row.
+ * Every frame of every animation is drawn around the same origin, so parts
+ * like the rotor and the flame are layered on top of the body.
+ */
+
+export type SpriteAnimation = {
+  row: number;
+  frames: number;
+  fps: number;
+  loop: boolean; // one-shot animations hold their last frame
+};
+
+export type SpriteAtlas<Name extends string = string> = {
+  image: HTMLImageElement;
+  cellSize: number; // px in the image, also the drawn size in world pixels
+  animations: Record<Name, SpriteAnimation>;
+};
+
+export type HelicopterAnimation = 'body' | 'rotor' | 'flame' | 'explosion';
+export type HelicopterAtlas = SpriteAtlas<HelicopterAnimation>;
+
+const HELICOPTER_ATLAS_URL = '/sprites/helicopter.svg';
+const HELICOPTER_CELL_SIZE = 64;
+const HELICOPTER_ANIMATIONS: Record<HelicopterAnimation, SpriteAnimation> = {
+  body: { row: 0, frames: 1, fps: 1, loop: true },
+  rotor: { row: 1, frames: 4, fps: 16, loop: true },
+  flame: { row: 2, frames: 3, fps: 20, loop: true },
+  explosion: { row: 3, frames: 6, fps: 12, loop: false }
+};
+
+// Give up on the atlas after this long so a slow network never holds up the frame
+const SPRITE_LOAD_TIMEOUT = 3000; // ms
+
+function loadImage(url: string, timeout: number): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const timer = setTimeout(() => reject(new Error(`Timed out loading ${url}`)), timeout);
+    image.onload = () => {
+      clearTimeout(timer);
+      resolve(image);
+    };
+    image.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to load ${url}`));
+    };
+    image.src = url;
+  });
+}
+
+let helicopterAtlas: Promise<HelicopterAtlas | null> | null = null;
+
+// Load the helicopter atlas once; resolves to null when it can't be loaded,
+// in which case callers fall back to the emoji
+export function loadHelicopterAtlas(): Promise<HelicopterAtlas | null> {
+  if (!helicopterAtlas) {
+    helicopterAtlas = loadImage(HELICOPTER_ATLAS_URL, SPRITE_LOAD_TIMEOUT)
+      .then(image => ({
+        image,
+        cellSize: HELICOPTER_CELL_SIZE,
+        animations: HELICOPTER_ANIMATIONS
+      }))
+      .catch(error => {
+        console.error('Error loading sprites:', error);
+        return null;
+      });
+  }
+  return helicopterAtlas;
+}
+
+// Frame to show `time` seconds into an animation
+export function getAnimationFrame(animation: SpriteAnimation, time: number): number {
+  const frame = Math.floor(Math.max(time, 0) * animation.fps);
+  return animation.loop ? frame % animation.frames : Math.min(frame, animation.frames - 1);
+}
+
+// Whether a one-shot animation has played through its last frame
+export function isAnimationFinished(animation: SpriteAnimation, time: number): boolean {
+  return !animation.loop && time * animation.fps >= animation.frames;
+}
+
+// Draw the frame of an animation for `time`, centred on (x, y)
+export function drawSprite<Name extends string>(
+  ctx: CanvasRenderingContext2D,
+  atlas: SpriteAtlas<Name>,
+  name: Name,
+  time: number,
+  x: number,
+  y: number
+) {
+  const animation = atlas.animations[name];
+  const size = atlas.cellSize;
+  const frame = getAnimationFrame(animation, time);
+  ctx.drawImage(atlas.image, frame * size, animation.row * size, size, size, x - size / 2, y - size / 2, size, size);
+}
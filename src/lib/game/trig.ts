@@ -0,0 +1,29 @@
+/**
+ * Deterministic sine and cosine for the simulation.
+ *
+ * Math.sin and Math.cos are only required to be approximately right, so
+ * browsers and the server can disagree in the last bit and a replay would
+ * drift. These only use arithmetic that is exactly rounded everywhere.
+ */
+
+const HALF_PI = Math.PI / 2;
+const TWO_PI = Math.PI * 2;
+
+export function sin(x: number): number {
+  // Reduce to [-π, π], then fold into [-π/2, π/2] where the series converges quickly
+  let r = x - TWO_PI * Math.round(x / TWO_PI);
+  if (r > HALF_PI) {
+    r = Math.PI - r;
+  } else if (r < -HALF_PI) {
+    r = -Math.PI - r;
+  }
+
+  // Taylor series up to r^15, accurate to about 1e-11 on this range
+  const r2 = r * r;
+  return r * (1 + r2 * (-1 / 6 + r2 * (1 / 120 + r2 * (-1 / 5040 + r2 * (1 / 362880 +
+    r2 * (-1 / 39916800 + r2 * (1 / 6227020800 + r2 * (-1 / 1307674368000))))))));
+}
+
+export function cos(x: number): number {
+  return sin(x + HALF_PI);
+}
@@ -0,0 +1,94 @@
+import { PHYSICS_VERSION, TICK_RATE } from '~/lib/game/constants';
+import { getDifficultyProfile } from '~/lib/game/difficulty';
+import { simulateInputLog, type InputLog } from '~/lib/game/replay';
+import { getDistance, type SimulationState } from '~/lib/game/simulation';
+
+/**
+ * Server-side run verification.
+ *
+ * A submitted run is re-simulated from its seed and input log; the score
+ * the engine computes is the only score that counts, and the coins it
+ * collects are the only coins credited.
+ */
+
+// Limits on what a genuine client can produce
+const MIN_WORLD_WIDTH = 200;
+const MAX_WORLD_WIDTH = 500; // game container maxWidth
+const MIN_WORLD_HEIGHT = 300;
+const MAX_WORLD_HEIGHT = 800; // game container maxHeight
+const MAX_RUN_TICKS = TICK_RATE * 60 * 10; // 10 minutes, well past the longest genuine runs
+
+export type RunVerificationError =
+  | 'PHYSICS_VERSION_MISMATCH' // recorded with a different engine version
+  | 'DIFFICULTY_VERSION_MISMATCH' // recorded with different tuning for its difficulty profile
+  | 'INVALID_WORLD_SIZE' // world dimensions outside what the game can render
+  | 'INVALID_INPUT_LOG' // toggles out of order or outside the run
+  | 'RUN_TOO_LONG' // longer than any plausible run
+  | 'RUN_NOT_FINISHED' // the helicopter never crashed
+  | 'RUN_ENDED_EARLY' // the helicopter crashed before the recorded end
+  | 'SCORE_MISMATCH'; // claimed score differs from the re-simulated one
+
+export type RunVerificationResult =
+  | { valid: true; score: number; ticks: number; distance: number; crashX: number; coins: number }
+  | { valid: false; error: RunVerificationError };
+
+// `onStep` sees every tick of the re-simulation, e.g. to track the run's achievement progress
+export function verifyRun(
+  log: InputLog,
+  claimedScore?: number,
+  onStep?: (previous: SimulationState, next: SimulationState) => void
+): RunVerificationResult {
+  if (log.version !== PHYSICS_VERSION) {
+    return { valid: false, error: 'PHYSICS_VERSION_MISMATCH' };
+  }
+
+  if (log.difficultyVersion !== getDifficultyProfile(log.difficulty).version) {
+    return { valid: false, error: 'DIFFICULTY_VERSION_MISMATCH' };
+  }
+
+  if (
+    log.width < MIN_WORLD_WIDTH || log.width > MAX_WORLD_WIDTH ||
+    log.height < MIN_WORLD_HEIGHT || log.height > MAX_WORLD_HEIGHT
+  ) {
+    return { valid: false, error: 'INVALID_WORLD_SIZE' };
+  }
+
+  if (!Number.isInteger(log.ticks) || log.ticks <= 0) {
+    return { valid: false, error: 'INVALID_INPUT_LOG' };
+  }
+
+  if (log.ticks > MAX_RUN_TICKS) {
+    return { valid: false, error: 'RUN_TOO_LONG' };
+  }
+
+  // Toggles must be strictly ascending integer ticks within the run
+  for (let i = 0; i < log.toggles.length; i++) {
+    const tick = log.toggles[i];
+    if (!Number.isInteger(tick) || tick < 0 || tick >= log.ticks || (i > 0 && tick <= log.toggles[i - 1])) {
+      return { valid: false, error: 'INVALID_INPUT_LOG' };
+    }
+  }
+
+  const state = simulateInputLog(log, log.ticks, onStep);
+
+  if (state.status !== 'CRASHED') {
+    return { valid: false, error: 'RUN_NOT_FINISHED' };
+  }
+
+  if (state.tick !== log.ticks) {
+    return { valid: false, error: 'RUN_ENDED_EARLY' };
+  }
+
+  if (claimedScore !== undefined && claimedScore !== state.score) {
+    return { valid: false, error: 'SCORE_MISMATCH' };
+  }
+
+  return {
+    valid: true,
+    score: state.score,
+    ticks: state.tick,
+    distance: getDistance(state),
+    crashX: state.scrollX + state.helicopter.x,
+    coins: state.coinsCollected
+  };
+}
@@ -1,11 +1,19 @@
+import { createHash } from "crypto";
 import { FrameNotificationDetails } from "@farcaster/frame-sdk";
-import { Redis } from "@upstash/redis";
+import {
+  applyRunEvent,
+  createAchievementTracker,
+  EMPTY_STATS,
+  getEarnedAchievements,
+  type AchievementRecord,
+  type RunEvent,
+} from "~/lib/game/achievements";
+import type { CoinWallet, SkinId } from "~/lib/game/cosmetics";
+import type { CourseOutline } from "~/lib/game/replay";
 import { PROJECT_ID } from "~/lib/constants";
+import { getKeyValueStore } from "~/lib/kvStore";
 
-const redis = new Redis({
-  url: process.env.KV_REST_API_URL,
-  token: process.env.KV_REST_API_TOKEN,
-});
+const store = getKeyValueStore();
 
 function getProjectKey(): string {
   return PROJECT_ID;
@@ -18,7 +26,7 @@ function getUserNotificationDetailsKey(fid: number): string {
 export async function getUserNotificationDetails(
   fid: number
 ): Promise<FrameNotificationDetails | null> {
-  return await redis.get<FrameNotificationDetails>(
+  return await store.get<FrameNotificationDetails>(
     getUserNotificationDetailsKey(fid)
   );
 }
@@ -27,11 +35,491 @@ export async function setUserNotificationDetails(
   fid: number,
   notificationDetails: FrameNotificationDetails
 ): Promise<void> {
-  await redis.set(getUserNotificationDetailsKey(fid), notificationDetails);
+  await store.set(getUserNotificationDetailsKey(fid), notificationDetails);
 }
 
 export async function deleteUserNotificationDetails(
   fid: number
 ): Promise<void> {
-  await redis.del(getUserNotificationDetailsKey(fid));
+  await store.del(getUserNotificationDetailsKey(fid));
+}
+
+export type LeaderboardScope = "global" | "daily" | "weekly" | "challenge";
+
+export type LeaderboardEntry = {
+  fid: number;
+  score: number;
+};
+
+export type UserProfile = {
+  username?: string;
+  displayName?: string;
+  pfpUrl?: string;
+};
+
+// Boards every verified run counts towards
+const LEADERBOARD_SCOPES: LeaderboardScope[] = ["global", "daily", "weekly"];
+
+// Periodic boards are kept a little past their period, then expire
+const DAILY_LEADERBOARD_TTL = 60 * 60 * 24 * 3; // seconds
+const WEEKLY_LEADERBOARD_TTL = 60 * 60 * 24 * 14; // seconds
+
+// UTC date (YYYY-MM-DD) used to key the daily board
+function getDailyPeriod(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// ISO week (YYYY-Www) used to key the weekly board
+function getWeeklyPeriod(date: Date): string {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  // Shift to the Thursday of this week, which decides the ISO year
+  const dayOfWeek = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - dayOfWeek);
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${week.toString().padStart(2, "0")}`;
+}
+
+// Each difficulty profile version has its own boards (see getDifficultyBoardId)
+function getLeaderboardKey(
+  scope: LeaderboardScope,
+  board: string,
+  date: Date
+): string {
+  switch (scope) {
+    case "global":
+      return `${getProjectKey()}:leaderboard:${board}:global`;
+    case "daily":
+      return `${getProjectKey()}:leaderboard:${board}:daily:${getDailyPeriod(date)}`;
+    case "weekly":
+      return `${getProjectKey()}:leaderboard:${board}:weekly:${getWeeklyPeriod(date)}`;
+    case "challenge":
+      return `${getProjectKey()}:leaderboard:${board}:challenge:${getDailyPeriod(date)}`;
+  }
+}
+
+function getUserProfileKey(fid: number): string {
+  return `${getProjectKey()}:profile:${fid}`;
+}
+
+// Record a score on every board for its difficulty, keeping each user's best
+export async function submitLeaderboardScore(
+  fid: number,
+  score: number,
+  board: string,
+  date: Date = new Date()
+): Promise<void> {
+  for (const scope of LEADERBOARD_SCOPES) {
+    const key = getLeaderboardKey(scope, board, date);
+    await store.zadd(
+      key,
+      { member: fid.toString(), score },
+      { onlyIfGreater: true }
+    );
+
+    if (scope === "daily") {
+      await store.expire(key, DAILY_LEADERBOARD_TTL);
+    } else if (scope === "weekly") {
+      await store.expire(key, WEEKLY_LEADERBOARD_TTL);
+    }
+  }
+}
+
+// Record a daily challenge score on that day's challenge board
+export async function submitChallengeScore(
+  fid: number,
+  score: number,
+  board: string,
+  date: Date
+): Promise<void> {
+  const key = getLeaderboardKey("challenge", board, date);
+  await store.zadd(
+    key,
+    { member: fid.toString(), score },
+    { onlyIfGreater: true }
+  );
+  await store.expire(key, DAILY_LEADERBOARD_TTL);
+}
+
+// Entries ranked from the top, starting at `offset`
+export async function getLeaderboardPage(
+  scope: LeaderboardScope,
+  offset: number,
+  limit: number,
+  board: string,
+  date: Date = new Date()
+): Promise<LeaderboardEntry[]> {
+  const entries = await store.zrevrange(
+    getLeaderboardKey(scope, board, date),
+    offset,
+    offset + limit - 1
+  );
+  return entries.map(({ member, score }) => ({ fid: Number(member), score }));
+}
+
+export async function getLeaderboardSize(
+  scope: LeaderboardScope,
+  board: string,
+  date: Date = new Date()
+): Promise<number> {
+  return await store.zcard(getLeaderboardKey(scope, board, date));
+}
+
+// A user's zero-based rank and score, or null if they are not on the board
+export async function getLeaderboardRank(
+  scope: LeaderboardScope,
+  fid: number,
+  board: string,
+  date: Date = new Date()
+): Promise<{ rank: number; score: number } | null> {
+  const key = getLeaderboardKey(scope, board, date);
+  const rank = await store.zrevrank(key, fid.toString());
+  if (rank === null) return null;
+
+  const score = await store.zscore(key, fid.toString());
+  return { rank, score: score ?? 0 };
+}
+
+// The all-time board narrowed to `fids`, e.g. a player and the people they
+// follow, ranked from the top. Players without a score are left out.
+export async function getLeaderboardEntries(
+  fids: number[],
+  board: string
+): Promise<LeaderboardEntry[]> {
+  const scores = await store.zmscore(
+    getLeaderboardKey("global", board, new Date()),
+    fids.map((fid) => fid.toString())
+  );
+  return fids
+    .map((fid, i) => ({ fid, score: scores[i] }))
+    .filter((entry): entry is LeaderboardEntry => entry.score !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Who a player follows on Farcaster, cached briefly so paging through a
+// friends board doesn't look them up again
+function getFollowingKey(fid: number): string {
+  return `${getProjectKey()}:following:${fid}`;
+}
+
+const FOLLOWING_TTL = 60 * 10; // seconds
+
+export async function getFollowing(fid: number): Promise<number[] | null> {
+  return await store.get<number[]>(getFollowingKey(fid));
+}
+
+export async function saveFollowing(
+  fid: number,
+  following: number[]
+): Promise<void> {
+  await store.set(getFollowingKey(fid), following, { ttl: FOLLOWING_TTL });
+}
+
+export async function setUserProfile(
+  fid: number,
+  profile: UserProfile
+): Promise<void> {
+  await store.set(getUserProfileKey(fid), profile);
+}
+
+export async function getUserProfiles(
+  fids: number[]
+): Promise<(UserProfile | null)[]> {
+  return await store.mget<UserProfile>(fids.map(getUserProfileKey));
+}
+
+// Daily challenge attempt counters, kept until the challenge can no longer be submitted
+const DAILY_ATTEMPTS_TTL = 60 * 60 * 24 * 2; // seconds
+
+function getDailyAttemptsKey(fid: number, challengeDate: string): string {
+  return `${getProjectKey()}:daily-attempts:${challengeDate}:${fid}`;
+}
+
+function getDailyAttemptTokenKey(token: string): string {
+  return `${getProjectKey()}:daily-attempt:${token}`;
+}
+
+export async function getDailyAttempts(
+  fid: number,
+  challengeDate: string
+): Promise<number> {
+  return (await store.get<number>(getDailyAttemptsKey(fid, challengeDate))) ?? 0;
+}
+
+// Count a started attempt and return the new total
+export async function startDailyAttempt(
+  fid: number,
+  challengeDate: string
+): Promise<number> {
+  const key = getDailyAttemptsKey(fid, challengeDate);
+  const attempts = await store.incr(key);
+  await store.expire(key, DAILY_ATTEMPTS_TTL);
+  return attempts;
+}
+
+// A started ranked attempt, redeemed once by the run played for it
+export type DailyAttempt = {
+  fid: number;
+  challengeDate: string;
+  startedAt: number; // server time, in milliseconds
+};
+
+// Issue the token for a started attempt
+export async function createDailyAttemptToken(
+  fid: number,
+  challengeDate: string
+): Promise<string> {
+  const token = crypto.randomUUID();
+  const attempt: DailyAttempt = { fid, challengeDate, startedAt: Date.now() };
+  await store.set(getDailyAttemptTokenKey(token), attempt, {
+    ttl: DAILY_ATTEMPTS_TTL,
+  });
+  return token;
+}
+
+// Use up an attempt token; returns its attempt, or null if the token is
+// unknown or has already been used
+export async function consumeDailyAttemptToken(
+  token: string
+): Promise<DailyAttempt | null> {
+  const key = getDailyAttemptTokenKey(token);
+  const attempt = await store.get<DailyAttempt>(key);
+  if (!attempt) return null;
+
+  // The counter makes sure only one of several submissions at once wins
+  const usedKey = `${key}:used`;
+  const uses = await store.incr(usedKey);
+  await store.expire(usedKey, DAILY_ATTEMPTS_TTL);
+  if (uses !== 1) return null;
+
+  await store.del(key);
+  return attempt;
+}
+
+// A verified run, kept so it can be shared and replayed by id. Results
+// from verification are kept with it, so reading a run never re-simulates it.
+export type RunRecord = {
+  fid: number;
+  score: number;
+  distance: number; // meters
+  crashX: number; // world x where the helicopter crashed
+  run: string; // input log encoded with encodeInputLog
+  createdAt: number;
+};
+
+// A run's course as drawn on its score card, without the final state
+export type RunOutline = Omit<CourseOutline, "finalState">;
+
+const RUN_TTL = 60 * 60 * 24 * 30; // seconds
+
+function getRunKey(runId: string): string {
+  return `${getProjectKey()}:run:${runId}`;
+}
+
+function getRunOutlineKey(runId: string): string {
+  return `${getProjectKey()}:run-outline:${runId}`;
+}
+
+// Store a run and return its new id
+export async function saveRun(record: RunRecord): Promise<string> {
+  const runId = crypto.randomUUID().replace(/-/g, "").slice(0, 16);
+  await store.set(getRunKey(runId), record, { ttl: RUN_TTL });
+  return runId;
+}
+
+export async function getRun(runId: string): Promise<RunRecord | null> {
+  return await store.get<RunRecord>(getRunKey(runId));
+}
+
+// Course outlines are cached the first time a run's score card is drawn,
+// and expire with the run
+export async function getRunOutline(runId: string): Promise<RunOutline | null> {
+  return await store.get<RunOutline>(getRunOutlineKey(runId));
+}
+
+export async function saveRunOutline(
+  runId: string,
+  outline: RunOutline
+): Promise<void> {
+  await store.set(getRunOutlineKey(runId), outline, { ttl: RUN_TTL });
+}
+
+// Share funnel: a run is shared, the link is opened, and the visitor plays
+export type ShareEvent = "share" | "open" | "play";
+
+const SHARE_EVENTS: ShareEvent[] = ["share", "open", "play"];
+
+function getShareEventKey(event: ShareEvent, runId?: string): string {
+  return runId
+    ? `${getProjectKey()}:shares:${runId}:${event}`
+    : `${getProjectKey()}:shares:total:${event}`;
+}
+
+// Count a share event against the run and the overall totals
+export async function recordShareEvent(
+  runId: string,
+  event: ShareEvent
+): Promise<void> {
+  const key = getShareEventKey(event, runId);
+  await store.incr(key);
+  await store.expire(key, RUN_TTL);
+  await store.incr(getShareEventKey(event));
+}
+
+// Event counts for one run, or across all runs
+export async function getShareStats(
+  runId?: string
+): Promise<Record<ShareEvent, number>> {
+  const counts = await store.mget<number>(
+    SHARE_EVENTS.map((event) => getShareEventKey(event, runId))
+  );
+  return {
+    share: counts[0] ?? 0,
+    open: counts[1] ?? 0,
+    play: counts[2] ?? 0,
+  };
+}
+
+// Challengers hear about each opponent's result only once
+function getChallengeNotifiedKey(challengeId: string, fid: number): string {
+  return `${getProjectKey()}:challenge-notified:${challengeId}:${fid}`;
+}
+
+// Returns true the first time it is called for a challenge and opponent
+export async function markChallengeNotified(
+  challengeId: string,
+  fid: number
+): Promise<boolean> {
+  const key = getChallengeNotifiedKey(challengeId, fid);
+  const count = await store.incr(key);
+  await store.expire(key, RUN_TTL);
+  return count === 1;
+}
+
+// Achievement progress, tracked from verified runs
+function getAchievementsKey(fid: number): string {
+  return `${getProjectKey()}:achievements:${fid}`;
+}
+
+export async function getAchievementRecord(
+  fid: number
+): Promise<AchievementRecord | null> {
+  return await store.get<AchievementRecord>(getAchievementsKey(fid));
+}
+
+// Fold the events reported while re-simulating a verified run into the
+// player's record and return it. Like its coins, each run counts only once;
+// `run` must be the canonical encoding (see encodeInputLog).
+export async function trackRunAchievements(
+  fid: number,
+  run: string,
+  events: RunEvent[]
+): Promise<AchievementRecord> {
+  const key = getAchievementsKey(fid);
+  const record = (await store.get<AchievementRecord>(key)) ?? {
+    stats: EMPTY_STATS,
+    unlocked: [],
+  };
+
+  const trackedKey = getRunTrackedKey(fid, run);
+  if ((await store.incr(trackedKey)) !== 1) return record;
+  await store.expire(trackedKey, RUN_CREDITED_TTL);
+
+  const tracker = createAchievementTracker(record.stats);
+  for (const event of events) {
+    applyRunEvent(tracker, event);
+  }
+  const next: AchievementRecord = {
+    stats: tracker.stats,
+    unlocked: getEarnedAchievements(tracker.stats),
+  };
+  await store.set(key, next);
+  return next;
+}
+
+// Coin balances, credited from verified runs and spent on skins
+function getCoinBalanceKey(fid: number): string {
+  return `${getProjectKey()}:coins:${fid}`;
+}
+
+function getPurchasedSkinsKey(fid: number): string {
+  return `${getProjectKey()}:skins:${fid}`;
+}
+
+// Runs are keyed by a hash of their canonical encoded input log, which can be long
+function getRunHash(run: string): string {
+  return createHash("sha256").update(run).digest("hex");
+}
+
+function getRunCreditedKey(fid: number, run: string): string {
+  return `${getProjectKey()}:run-credited:${fid}:${getRunHash(run)}`;
+}
+
+function getRunTrackedKey(fid: number, run: string): string {
+  return `${getProjectKey()}:run-tracked:${fid}:${getRunHash(run)}`;
+}
+
+// How long a credited or tracked run is remembered
+const RUN_CREDITED_TTL = 60 * 60 * 24 * 90; // seconds
+
+export async function getCoinWallet(fid: number): Promise<CoinWallet> {
+  const [balance, skins] = await Promise.all([
+    store.get<number>(getCoinBalanceKey(fid)),
+    store.smembers(getPurchasedSkinsKey(fid)),
+  ]);
+  return {
+    balance: typeof balance === "number" ? balance : 0,
+    skins: skins as SkinId[],
+  };
+}
+
+// Credit a verified run's coins and return the new balance. Each run pays
+// out only once, however many times it is submitted; `run` must be the
+// canonical encoding (see encodeInputLog).
+export async function creditRunCoins(
+  fid: number,
+  run: string,
+  coins: number
+): Promise<number> {
+  const key = getCoinBalanceKey(fid);
+  if (coins > 0) {
+    const creditedKey = getRunCreditedKey(fid, run);
+    if ((await store.incr(creditedKey)) === 1) {
+      await store.expire(creditedKey, RUN_CREDITED_TTL);
+      return await store.incr(key, coins);
+    }
+  }
+  return (await store.get<number>(key)) ?? 0;
+}
+
+export type SkinPurchaseResult =
+  | { success: true; wallet: CoinWallet }
+  | { success: false; error: "ALREADY_OWNED" | "INSUFFICIENT_COINS" };
+
+// Spend coins on a skin. Claiming the skin in the set comes first, so of
+// several purchases at once only one is charged, and each skin is added
+// without rewriting the others.
+export async function purchaseSkin(
+  fid: number,
+  skin: SkinId,
+  price: number
+): Promise<SkinPurchaseResult> {
+  const skinsKey = getPurchasedSkinsKey(fid);
+  if (!(await store.sadd(skinsKey, skin))) {
+    return { success: false, error: "ALREADY_OWNED" };
+  }
+
+  // Deduct next so two purchases at once can't both spend the same coins
+  const key = getCoinBalanceKey(fid);
+  const balance = await store.incr(key, -price);
+  if (balance < 0) {
+    await store.incr(key, price);
+    await store.srem(skinsKey, skin);
+    return { success: false, error: "INSUFFICIENT_COINS" };
+  }
+
+  const skins = (await store.smembers(skinsKey)) as SkinId[];
+  return { success: true, wallet: { balance, skins } };
 }
@@ -0,0 +1,20 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { createMemoryStore, type MemorySnapshot } from "~/lib/kvStore/memory";
+import type { KeyValueStore } from "~/lib/kvStore/types";
+
+// In-memory backend that persists every write to a JSON file, so local data
+// survives dev server restarts
+export function createFileStore(path: string): KeyValueStore {
+  let initial: MemorySnapshot = {};
+  if (existsSync(path)) {
+    try {
+      initial = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+      console.error(`Error reading KV file "${path}":`, error);
+    }
+  }
+
+  return createMemoryStore(initial, (snapshot) => {
+    writeFileSync(path, JSON.stringify(snapshot));
+  });
+}
@@ -0,0 +1,57 @@
+import { createFileStore } from "~/lib/kvStore/file";
+import { createMemoryStore } from "~/lib/kvStore/memory";
+import type { KeyValueStore } from "~/lib/kvStore/types";
+import { createUpstashStore } from "~/lib/kvStore/upstash";
+
+export type { KeyValueStore, SortedSetEntry } from "~/lib/kvStore/types";
+
+type KeyValueBackend = "upstash" | "memory" | "file";
+
+const DEFAULT_FILE_PATH = ".kv-store.json";
+
+// Use KV_BACKEND if set, otherwise Upstash when it is configured. Memory is
+// only a default in development: in production it would lose every
+// leaderboard, wallet and counter on each cold start, so a missing backend
+// is an error there. `next build` loads this module too, so it is let through.
+function getBackend(): KeyValueBackend {
+  const backend = process.env.KV_BACKEND;
+  if (backend === "upstash" || backend === "memory" || backend === "file") {
+    return backend;
+  }
+  if (process.env.KV_REST_API_URL) {
+    return "upstash";
+  }
+  if (
+    process.env.NODE_ENV === "production" &&
+    process.env.NEXT_PHASE !== "phase-production-build"
+  ) {
+    throw new Error(
+      "No key-value store configured: set KV_REST_API_URL, or KV_BACKEND to choose one explicitly"
+    );
+  }
+  return "memory";
+}
+
+// Cache on globalThis so the in-memory store survives hot reloads in development
+const globalForStore = globalThis as unknown as {
+  keyValueStore?: KeyValueStore;
+};
+
+export function getKeyValueStore(): KeyValueStore {
+  if (!globalForStore.keyValueStore) {
+    switch (getBackend()) {
+      case "upstash":
+        globalForStore.keyValueStore = createUpstashStore();
+        break;
+      case "file":
+        globalForStore.keyValueStore = createFileStore(
+          process.env.KV_FILE_PATH || DEFAULT_FILE_PATH
+        );
+        break;
+      case "memory":
+        globalForStore.keyValueStore = createMemoryStore();
+        break;
+    }
+  }
+  return globalForStore.keyValueStore;
+}
@@ -0,0 +1,172 @@
+import type {
+  KeyValueStore,
+  SetOptions,
+  SortedSetEntry,
+} from "~/lib/kvStore/types";
+
+type MemoryEntry =
+  | { type: "value"; value: unknown; expiresAt?: number }
+  | { type: "set"; members: string[]; expiresAt?: number }
+  | { type: "zset"; members: Record<string, number>; expiresAt?: number };
+
+// Plain-object form of the store's contents, used by the file backend
+export type MemorySnapshot = Record<string, MemoryEntry>;
+
+// Values are copied in and out so callers can't mutate stored data
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// In-process backend for local development and tests. Pass `onChange` to be
+// told after every write, e.g. to persist the snapshot somewhere.
+export function createMemoryStore(
+  initial: MemorySnapshot = {},
+  onChange?: (snapshot: MemorySnapshot) => void
+): KeyValueStore {
+  const entries: MemorySnapshot = clone(initial);
+
+  // Look up a live entry, dropping it if it has expired
+  const getEntry = (key: string): MemoryEntry | undefined => {
+    const entry = entries[key];
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      delete entries[key];
+      return undefined;
+    }
+    return entry;
+  };
+
+  const getSet = (key: string): string[] | undefined => {
+    const entry = getEntry(key);
+    if (entry && entry.type !== "set") {
+      throw new Error(`Key "${key}" does not hold a set`);
+    }
+    return entry?.members;
+  };
+
+  const getSortedSet = (key: string): Record<string, number> | undefined => {
+    const entry = getEntry(key);
+    if (entry && entry.type !== "zset") {
+      throw new Error(`Key "${key}" does not hold a sorted set`);
+    }
+    return entry?.members;
+  };
+
+  // Highest score first; ties ordered by member, descending, like ZREVRANGE
+  const sortDescending = (members: Record<string, number>): SortedSetEntry[] =>
+    Object.entries(members)
+      .map(([member, score]) => ({ member, score }))
+      .sort((a, b) => b.score - a.score || (a.member < b.member ? 1 : -1));
+
+  const changed = () => onChange?.(entries);
+
+  const store: KeyValueStore = {
+    async get<T>(key: string) {
+      const entry = getEntry(key);
+      if (!entry) return null;
+      if (entry.type !== "value") {
+        throw new Error(`Key "${key}" does not hold a value`);
+      }
+      return clone(entry.value) as T;
+    },
+
+    async mget<T>(keys: string[]) {
+      return await Promise.all(keys.map((key) => store.get<T>(key)));
+    },
+
+    async set<T>(key: string, value: T, options: SetOptions = {}) {
+      entries[key] = {
+        type: "value",
+        value: clone(value),
+        expiresAt: options.ttl ? Date.now() + options.ttl * 1000 : undefined,
+      };
+      changed();
+    },
+
+    async del(key) {
+      delete entries[key];
+      changed();
+    },
+
+    async incr(key, by = 1) {
+      const entry = getEntry(key);
+      const current = entry?.type === "value" ? Number(entry.value) : 0;
+      if (!Number.isFinite(current)) {
+        throw new Error(`Key "${key}" does not hold a number`);
+      }
+
+      // Counters keep their TTL when incremented, like Redis
+      entries[key] = { type: "value", value: current + by, expiresAt: entry?.expiresAt };
+      changed();
+      return current + by;
+    },
+
+    async expire(key, seconds) {
+      const entry = getEntry(key);
+      if (!entry) return;
+      entry.expiresAt = Date.now() + seconds * 1000;
+      changed();
+    },
+
+    async sadd(key, member) {
+      const members = getSet(key) ?? [];
+      if (members.includes(member)) return false;
+      entries[key] = { type: "set", members: [...members, member], expiresAt: getEntry(key)?.expiresAt };
+      changed();
+      return true;
+    },
+
+    async srem(key, member) {
+      const members = getSet(key);
+      if (!members?.includes(member)) return false;
+      entries[key] = {
+        type: "set",
+        members: members.filter((candidate) => candidate !== member),
+        expiresAt: getEntry(key)?.expiresAt,
+      };
+      changed();
+      return true;
+    },
+
+    async smembers(key) {
+      return [...(getSet(key) ?? [])];
+    },
+
+    async zadd(key, { member, score }, options = {}) {
+      const members = getSortedSet(key) ?? {};
+      if (!options.onlyIfGreater || members[member] === undefined || score > members[member]) {
+        members[member] = score;
+      }
+      entries[key] = { type: "zset", members, expiresAt: getEntry(key)?.expiresAt };
+      changed();
+    },
+
+    async zrevrange(key, start, stop) {
+      const members = getSortedSet(key);
+      if (!members) return [];
+      // A negative stop counts from the end, like Redis
+      const sorted = sortDescending(members);
+      return sorted.slice(start, stop < 0 ? sorted.length + stop + 1 : stop + 1);
+    },
+
+    async zrevrank(key, member) {
+      const members = getSortedSet(key);
+      if (!members || members[member] === undefined) return null;
+      return sortDescending(members).findIndex((entry) => entry.member === member);
+    },
+
+    async zscore(key, member) {
+      return getSortedSet(key)?.[member] ?? null;
+    },
+
+    async zmscore(key, members) {
+      const set = getSortedSet(key);
+      return members.map((member) => set?.[member] ?? null);
+    },
+
+    async zcard(key) {
+      return Object.keys(getSortedSet(key) ?? {}).length;
+    },
+  };
+
+  return store;
+}
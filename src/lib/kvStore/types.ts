@@ -0,0 +1,44 @@
+export type SortedSetEntry = {
+  member: string;
+  score: number;
+};
+
+export type SetOptions = {
+  // Expire the key after this many seconds
+  ttl?: number;
+};
+
+export type SortedSetAddOptions = {
+  // Only update an existing member when the new score is higher
+  onlyIfGreater?: boolean;
+};
+
+/**
+ * Minimal key-value store used by the app. Values are JSON-serializable;
+ * sorted set members are strings ordered by a numeric score.
+ */
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  mget<T>(keys: string[]): Promise<(T | null)[]>;
+  set<T>(key: string, value: T, options?: SetOptions): Promise<void>;
+  del(key: string): Promise<void>;
+
+  // Counters
+  incr(key: string, by?: number): Promise<number>;
+
+  // TTLs
+  expire(key: string, seconds: number): Promise<void>;
+
+  // Sets; sadd and srem return whether the set changed
+  sadd(key: string, member: string): Promise<boolean>;
+  srem(key: string, member: string): Promise<boolean>;
+  smembers(key: string): Promise<string[]>;
+
+  // Sorted sets
+  zadd(key: string, entry: SortedSetEntry, options?: SortedSetAddOptions): Promise<void>;
+  zrevrange(key: string, start: number, stop: number): Promise<SortedSetEntry[]>;
+  zrevrank(key: string, member: string): Promise<number | null>;
+  zscore(key: string, member: string): Promise<number | null>;
+  zmscore(key: string, members: string[]): Promise<(number | null)[]>;
+  zcard(key: string): Promise<number>;
+}
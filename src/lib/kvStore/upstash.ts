@@ -0,0 +1,98 @@
+import { Redis } from "@upstash/redis";
+import type { KeyValueStore, SetOptions } from "~/lib/kvStore/types";
+
+// Upstash Redis backend, configured from KV_REST_API_URL / KV_REST_API_TOKEN
+export function createUpstashStore(): KeyValueStore {
+  const redis = new Redis({
+    url: process.env.KV_REST_API_URL,
+    token: process.env.KV_REST_API_TOKEN,
+  });
+
+  return {
+    async get<T>(key: string) {
+      return await redis.get<T>(key);
+    },
+
+    async mget<T>(keys: string[]) {
+      if (!keys.length) return [];
+      return await redis.mget<(T | null)[]>(...keys);
+    },
+
+    async set<T>(key: string, value: T, options: SetOptions = {}) {
+      if (options.ttl) {
+        await redis.set(key, value, { ex: options.ttl });
+      } else {
+        await redis.set(key, value);
+      }
+    },
+
+    async del(key) {
+      await redis.del(key);
+    },
+
+    async incr(key, by = 1) {
+      return await redis.incrby(key, by);
+    },
+
+    async expire(key, seconds) {
+      await redis.expire(key, seconds);
+    },
+
+    async sadd(key, member) {
+      return (await redis.sadd(key, member)) === 1;
+    },
+
+    async srem(key, member) {
+      return (await redis.srem(key, member)) === 1;
+    },
+
+    async smembers(key) {
+      return await redis.smembers<string[]>(key);
+    },
+
+    async zadd(key, { member, score }, options = {}) {
+      if (options.onlyIfGreater) {
+        await redis.zadd(key, { gt: true }, { score, member });
+      } else {
+        await redis.zadd(key, { score, member });
+      }
+    },
+
+    async zrevrange(key, start, stop) {
+      const result = await redis.zrange<(string | number)[]>(key, start, stop, {
+        rev: true,
+        withScores: true,
+      });
+
+      // Results alternate member, score
+      const entries = [];
+      for (let i = 0; i < result.length; i += 2) {
+        entries.push({ member: String(result[i]), score: Number(result[i + 1]) });
+      }
+      return entries;
+    },
+
+    async zrevrank(key, member) {
+      return await redis.zrevrank(key, member);
+    },
+
+    async zscore(key, member) {
+      const score = await redis.zscore(key, member);
+      return score === null ? null : Number(score);
+    },
+
+    async zmscore(key, members) {
+      if (members.length === 0) return [];
+      // Members without a score come back as null
+      const scores = (await redis.zmscore(key, members)) as (number | string | null)[] | null;
+      return members.map((_, i) => {
+        const score = scores?.[i] ?? null;
+        return score === null ? null : Number(score);
+      });
+    },
+
+    async zcard(key) {
+      return await redis.zcard(key);
+    },
+  };
+}
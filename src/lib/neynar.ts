@@ -0,0 +1,48 @@
+import { Configuration, NeynarAPIClient } from "@neynar/nodejs-sdk";
+import { getFollowing, saveFollowing } from "~/lib/kv";
+
+// Most followed accounts a friends leaderboard looks through
+const MAX_FOLLOWING = 1000;
+const FOLLOWING_PAGE_SIZE = 100; // Neynar's maximum
+
+let client: NeynarAPIClient | null = null;
+
+function getClient(): NeynarAPIClient | null {
+  const apiKey = process.env.NEYNAR_API_KEY;
+  if (!apiKey) return null;
+
+  client ??= new NeynarAPIClient(new Configuration({ apiKey }));
+  return client;
+}
+
+// FIDs of the accounts `fid` follows, or null when Neynar isn't configured
+// or can't be reached
+export async function getFollowingFids(fid: number): Promise<number[] | null> {
+  const cached = await getFollowing(fid);
+  if (cached) return cached;
+
+  const neynar = getClient();
+  if (!neynar) return null;
+
+  const following: number[] = [];
+  try {
+    let cursor: string | undefined;
+    do {
+      const response = await neynar.fetchUserFollowing({
+        fid,
+        limit: FOLLOWING_PAGE_SIZE,
+        cursor,
+      });
+      for (const follow of response.users) {
+        if (follow.user) following.push(follow.user.fid);
+      }
+      cursor = response.next.cursor ?? undefined;
+    } while (cursor && following.length < MAX_FOLLOWING);
+  } catch (error) {
+    console.error("Error fetching following:", error);
+    return null;
+  }
+
+  await saveFollowing(fid, following);
+  return following;
+}
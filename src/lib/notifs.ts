@@ -19,10 +19,12 @@ export async function sendFrameNotification({
   fid,
   title,
   body,
+  targetUrl = appUrl,
 }: {
   fid: number;
   title: string;
   body: string;
+  targetUrl?: string;
 }): Promise<SendFrameNotificationResult> {
   const notificationDetails = await getUserNotificationDetails(fid);
   if (!notificationDetails) {
@@ -38,7 +40,7 @@ export async function sendFrameNotification({
       notificationId: crypto.randomUUID(),
       title,
       body,
-      targetUrl: appUrl,
+      targetUrl,
       tokens: [notificationDetails.token],
     } satisfies SendNotificationRequest),
   });
@@ -0,0 +1,44 @@
+import sdk from "@farcaster/frame-sdk";
+import { getCsrfToken, getSession, signIn } from "next-auth/react";
+
+// Fid the session is known to be for, so signed-in requests skip the check
+let signedInFid: number | null = null;
+
+// Sign-in in progress, shared so requests made meanwhile prompt only once
+let pendingSignIn: Promise<boolean> | null = null;
+
+async function signInWithFarcaster(fid: number): Promise<boolean> {
+  try {
+    const session = await getSession();
+    if (session?.user?.fid !== fid) {
+      const nonce = await getCsrfToken();
+      if (!nonce) return false;
+
+      const { message, signature } = await sdk.actions.signIn({ nonce });
+      const response = await signIn("credentials", {
+        message,
+        signature,
+        redirect: false,
+      });
+      if (!response?.ok || response.error) return false;
+    }
+
+    signedInFid = fid;
+    return true;
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return false;
+  }
+}
+
+// Routes that act for a player only trust the fid of their Sign In with
+// Farcaster session. Resolves true once there is a session for `fid`, asking
+// the player to sign in first if there isn't.
+export function ensureSignedIn(fid: number): Promise<boolean> {
+  if (signedInFid === fid) return Promise.resolve(true);
+
+  pendingSignIn ??= signInWithFarcaster(fid).finally(() => {
+    pendingSignIn = null;
+  });
+  return pendingSignIn;
+}